@@ -0,0 +1,153 @@
+/**
+ * Compares gate evaluation throughput with compiled conditions against the
+ * uncompiled evaluator path. Run `npm run bench` (builds dist first).
+ */
+const { performance } = require('perf_hooks');
+const Statsig = require('../dist/index.js');
+const {
+  clearCompiledCondition,
+  compileSpec,
+} = require('../dist/SpecCompiler.js');
+
+const ITERATIONS = Number(process.env.BENCH_ITERATIONS ?? 200000);
+
+function condition(type, operator, targetValue, field) {
+  return { type, operator, targetValue, field, additionalValues: {} };
+}
+
+function gate(name, conditions) {
+  return {
+    name,
+    type: 'feature_gate',
+    salt: name,
+    defaultValue: false,
+    enabled: true,
+    entity: 'feature_gate',
+    rules: [
+      {
+        name: 'rule',
+        id: `${name}_rule`,
+        groupName: 'group',
+        passPercentage: 100,
+        conditions,
+        returnValue: true,
+      },
+    ],
+  };
+}
+
+const countries = [];
+for (let i = 0; i < 200; i++) {
+  countries.push(`C${i}`);
+}
+
+const specs = {
+  has_updates: true,
+  time: Date.now(),
+  feature_gates: [
+    gate('countries', [condition('user_field', 'any', countries, 'country')]),
+    gate('email_domain', [
+      condition(
+        'user_field',
+        'str_ends_with_any',
+        ['@statsig.com', '@example.com', '@test.io'],
+        'email',
+      ),
+    ]),
+    gate('regex', [
+      condition('user_field', 'str_matches', '^user-[0-9]+$', 'userID'),
+    ]),
+    gate('registered_before', [
+      condition('user_field', 'before', '2023-06-01T00:00:00Z', 'registered'),
+    ]),
+    gate('app_version', [
+      condition('user_field', 'version_gte', '2.4.0', 'appVersion'),
+    ]),
+    gate('tags', [
+      condition(
+        'user_field',
+        'array_contains_any',
+        ['1', '5', '9', '42'],
+        'tags',
+      ),
+    ]),
+    gate('level', [condition('user_field', 'gte', 10, 'level')]),
+  ],
+  dynamic_configs: [],
+  layer_configs: [],
+};
+
+const users = [];
+for (let i = 0; i < 1000; i++) {
+  users.push({
+    userID: `user-${i}`,
+    email: i % 3 === 0 ? `u${i}@statsig.com` : `u${i}@other.com`,
+    country: `C${i % 400}`,
+    appVersion: `2.${i % 8}.1`,
+    custom: {
+      registered: new Date(2023, i % 12, 1).toISOString(),
+      tags: [i % 50, (i * 7) % 50],
+      level: i % 20,
+    },
+  });
+}
+
+const gateNames = specs.feature_gates.map((spec) => spec.name);
+
+function run() {
+  const start = performance.now();
+  let passes = 0;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const user = users[i % users.length];
+    const name = gateNames[i % gateNames.length];
+    if (Statsig.checkGateWithExposureLoggingDisabledSync(user, name)) {
+      passes++;
+    }
+  }
+  return { ms: performance.now() - start, passes };
+}
+
+function report(label, result) {
+  const opsPerSec = Math.round((ITERATIONS / result.ms) * 1000);
+  console.log(
+    `${label.padEnd(12)} ${result.ms.toFixed(1).padStart(9)} ms  ${String(
+      opsPerSec,
+    ).padStart(9)} checks/s  (${result.passes} passed)`,
+  );
+}
+
+async function main() {
+  await Statsig.initialize('secret-benchmark', {
+    localMode: true,
+    initStrategyForIDLists: 'none',
+    disableIdListsSync: true,
+    bootstrapValues: JSON.stringify(specs),
+  });
+  const gates = Object.values(
+    Statsig._enforceServer()._evaluator.store.store.gates,
+  );
+
+  run(); // warm up
+  const withCompiled = run();
+
+  gates.forEach((spec) =>
+    spec.rules.forEach((rule) =>
+      rule.conditions.forEach(clearCompiledCondition),
+    ),
+  );
+  run();
+  const withoutCompiled = run();
+  gates.forEach(compileSpec);
+
+  console.log(`${ITERATIONS} checks over ${gateNames.length} gates`);
+  report('compiled', withCompiled);
+  report('uncompiled', withoutCompiled);
+  if (withCompiled.passes !== withoutCompiled.passes) {
+    console.error('Compiled and uncompiled results differ');
+    process.exitCode = 1;
+  }
+
+  Statsig.shutdown();
+}
+
+main();
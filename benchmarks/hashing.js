@@ -0,0 +1,123 @@
+/**
+ * Measures hashing throughput for pass percentage rollouts and user_bucket
+ * conditions, with a cold hash cache (every unit ID new) and a warm one.
+ * Run `npm run bench` (builds dist first).
+ */
+const { performance } = require('perf_hooks');
+const Statsig = require('../dist/index.js');
+const { sha256Hash } = require('../dist/utils/Hashing.js');
+const { SHA256 } = require('../dist/utils/Sha256.js');
+
+const ITERATIONS = Number(process.env.BENCH_ITERATIONS ?? 200000);
+const WARM_USERS = 1000;
+
+function gate(name, passPercentage, conditions) {
+  return {
+    name,
+    type: 'feature_gate',
+    salt: name,
+    defaultValue: false,
+    enabled: true,
+    entity: 'feature_gate',
+    rules: [
+      {
+        name: 'rule',
+        id: `${name}_rule`,
+        groupName: 'group',
+        passPercentage,
+        conditions,
+        returnValue: true,
+      },
+    ],
+  };
+}
+
+const specs = {
+  has_updates: true,
+  time: Date.now(),
+  feature_gates: [
+    gate('pass_percentage', 50, [
+      { type: 'public', operator: null, targetValue: null, field: null },
+    ]),
+    gate('user_bucket', 100, [
+      {
+        type: 'user_bucket',
+        operator: 'lt',
+        targetValue: 500,
+        field: null,
+        additionalValues: { salt: 'bucket_salt' },
+      },
+    ]),
+  ],
+  dynamic_configs: [],
+  layer_configs: [],
+};
+
+function time(label, unit, fn) {
+  const start = performance.now();
+  let count = 0;
+  for (let i = 0; i < ITERATIONS; i++) {
+    if (fn(i)) {
+      count++;
+    }
+  }
+  const ms = performance.now() - start;
+  const opsPerSec = Math.round((ITERATIONS / ms) * 1000);
+  console.log(
+    `${label.padEnd(28)} ${ms.toFixed(1).padStart(9)} ms  ${String(
+      opsPerSec,
+    ).padStart(9)} ${unit}/s  (${count} true)`,
+  );
+}
+
+function checkGate(gateName, warm, run) {
+  return (i) => {
+    const userID = warm ? `user-${i % WARM_USERS}` : `run${run}-user-${i}`;
+    return Statsig.checkGateWithExposureLoggingDisabledSync(
+      { userID },
+      gateName,
+    );
+  };
+}
+
+async function main() {
+  await Statsig.initialize('secret-benchmark', {
+    localMode: true,
+    initStrategyForIDLists: 'none',
+    disableIdListsSync: true,
+    bootstrapValues: JSON.stringify(specs),
+  });
+
+  console.log(`${ITERATIONS} iterations`);
+  time(
+    'sha256 js',
+    'hashes',
+    (i) => SHA256(`salt.rule.user-${i}`).dataView().getUint8(0) >= 0,
+  );
+  time(
+    'sha256 native',
+    'hashes',
+    (i) => sha256Hash(`salt.rule.user-${i}`).getUint8(0) >= 0,
+  );
+
+  time(
+    'pass percentage (cold cache)',
+    'checks',
+    checkGate('pass_percentage', false, 0),
+  );
+  time(
+    'pass percentage (warm cache)',
+    'checks',
+    checkGate('pass_percentage', true, 0),
+  );
+  time(
+    'user_bucket (cold cache)',
+    'checks',
+    checkGate('user_bucket', false, 1),
+  );
+  time('user_bucket (warm cache)', 'checks', checkGate('user_bucket', true, 1));
+
+  Statsig.shutdown();
+}
+
+main();
@@ -15,6 +15,11 @@ export interface Marker {
 
 export interface MarkerMetadata {
   url?: string;
+  reason?: string;
+  droppedBatches?: number;
+  droppedEvents?: number;
+  consecutiveFailures?: number;
+  reconnectDelayMs?: number;
 }
 
 export type ContextType = 'initialize' | 'config_sync' | 'event_logging';
@@ -23,6 +28,11 @@ export type KeyType =
   | 'bootstrap'
   | 'get_id_list'
   | 'get_id_list_sources'
+  | 'persistent_event_queue'
+  | 'circuit_breaker'
+  | 'log_event'
+  | 'config_spec_stream'
+  | 'specs_sharing'
   | 'overall';
 export type StepType = 'process' | 'network_request';
 export type ActionType = 'start' | 'end';
@@ -81,6 +91,14 @@ export default class Diagnostics {
     this.markers[context].push(marker);
   }
 
+  // Logs a single marker right away, for state changes outside of a sync
+  logMarker(context: ContextType, marker: Marker) {
+    if (this.disable) {
+      return;
+    }
+    this.logger.logDiagnosticsEvent({ context, markers: [marker] });
+  }
+
   logDiagnostics(
     context: ContextType,
     optionalArgs?: {
@@ -5,6 +5,7 @@ import {
   StatsigUninitializedError,
 } from './Errors';
 import OutputLogger from './OutputLogger';
+import { FetchImplementation } from './StatsigOptions';
 import { getSDKType, getSDKVersion, getStatsigMetadata } from './utils/core';
 import safeFetch from './utils/safeFetch';
 
@@ -15,9 +16,11 @@ export default class ErrorBoundary {
   private statsigMetadata = getStatsigMetadata();
   private seen = new Set<string>();
   private outputLogger = OutputLogger.getLogger();
+  private fetch: FetchImplementation;
 
-  constructor(sdkKey: string) {
+  constructor(sdkKey: string, fetch: FetchImplementation = safeFetch) {
     this.sdkKey = sdkKey;
+    this.fetch = fetch;
   }
 
   swallow<T>(task: () => T) {
@@ -80,7 +83,7 @@ export default class ErrorBoundary {
         info,
         statsigMetadata: this.statsigMetadata ?? {},
       });
-      safeFetch(ExceptionEndpoint, {
+      this.fetch(ExceptionEndpoint, {
         method: 'POST',
         headers: {
           'STATSIG-API-KEY': this.sdkKey,
@@ -28,3 +28,19 @@ export class StatsigLocalModeNetworkError extends Error {
     Object.setPrototypeOf(this, StatsigLocalModeNetworkError.prototype);
   }
 }
+
+export class StatsigRequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+
+    Object.setPrototypeOf(this, StatsigRequestTimeoutError.prototype);
+  }
+}
+
+export class StatsigCircuitOpenError extends Error {
+  constructor(endpoint: string) {
+    super(`Requests to ${endpoint} are paused after repeated failures`);
+
+    Object.setPrototypeOf(this, StatsigCircuitOpenError.prototype);
+  }
+}
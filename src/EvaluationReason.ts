@@ -5,4 +5,6 @@ export type EvaluationReason =
   | 'Uninitialized'
   | 'Bootstrap'
   | 'DataAdapter'
+  | 'File'
+  | 'Pinned'
   | 'Unsupported';
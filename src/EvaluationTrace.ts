@@ -0,0 +1,191 @@
+import ConfigEvaluation from './ConfigEvaluation';
+import { ConfigCondition, ConfigRule, ConfigSpec } from './ConfigSpec';
+import { EvaluationDetails } from './EvaluationDetails';
+import { SecondaryExposure } from './LogEvent';
+
+export type ConditionTrace = {
+  type: string;
+  operator: string | null;
+  field: string | null;
+  idType: string | null;
+  targetValue: unknown;
+  value: unknown;
+  passes: boolean;
+  unsupported: boolean;
+  gateChecks: SpecTrace[];
+};
+
+export type PassPercentageTrace = {
+  bucket: number;
+  threshold: number;
+  passes: boolean;
+};
+
+export type RuleTrace = {
+  ruleID: string;
+  name: string;
+  groupName: string | null;
+  conditions: ConditionTrace[];
+  passes: boolean;
+  passPercentage: PassPercentageTrace | null;
+  delegate: SpecTrace | null;
+};
+
+export type SpecTrace = {
+  name: string;
+  entity: string;
+  enabled: boolean;
+  version: number | null;
+  rules: RuleTrace[];
+  result: {
+    value: boolean;
+    ruleID: string;
+    groupName: string | null;
+    unsupported: boolean;
+  } | null;
+};
+
+export type EvaluationExplanation = {
+  name: string;
+  value: boolean;
+  jsonValue: Record<string, unknown>;
+  ruleID: string;
+  groupName: string | null;
+  secondaryExposures: SecondaryExposure[];
+  evaluationDetails: EvaluationDetails | null;
+  trace: SpecTrace | null;
+};
+
+type SpecFrame = { spec: SpecTrace; currentRule: RuleTrace | null };
+
+/**
+ * Records the rules and conditions visited while the Evaluator runs in trace mode.
+ * Nested specs are attached to the condition that triggered them (pass_gate / fail_gate)
+ * or to the rule that delegated to them.
+ */
+export default class EvaluationTracer {
+  private root: SpecTrace | null = null;
+  private specFrames: SpecFrame[] = [];
+  private conditionFrames: { trace: ConditionTrace; depth: number }[] = [];
+
+  public getTrace(): SpecTrace | null {
+    return this.root;
+  }
+
+  public enterSpec(spec: ConfigSpec) {
+    const trace: SpecTrace = {
+      name: spec.name,
+      entity: spec.entity,
+      enabled: spec.enabled,
+      version: spec.version ?? null,
+      rules: [],
+      result: null,
+    };
+
+    const condition = this.currentCondition();
+    const parent = this.currentSpecFrame();
+    if (condition != null) {
+      condition.gateChecks.push(trace);
+    } else if (parent?.currentRule != null) {
+      parent.currentRule.delegate = trace;
+    } else if (this.root == null) {
+      this.root = trace;
+    }
+
+    this.specFrames.push({ spec: trace, currentRule: null });
+  }
+
+  public exitSpec(evaluation: ConfigEvaluation) {
+    const frame = this.specFrames.pop();
+    if (frame == null) {
+      return;
+    }
+    frame.spec.result = {
+      value: evaluation.value,
+      ruleID: evaluation.rule_id,
+      groupName: evaluation.group_name,
+      unsupported: evaluation.unsupported,
+    };
+  }
+
+  public startRule(rule: ConfigRule) {
+    const frame = this.currentSpecFrame();
+    if (frame == null) {
+      return;
+    }
+    const trace: RuleTrace = {
+      ruleID: rule.id,
+      name: rule.name,
+      groupName: rule.groupName ?? null,
+      conditions: [],
+      passes: false,
+      passPercentage: null,
+      delegate: null,
+    };
+    frame.spec.rules.push(trace);
+    frame.currentRule = trace;
+  }
+
+  public endRule(passes: boolean) {
+    const rule = this.currentSpecFrame()?.currentRule;
+    if (rule != null) {
+      rule.passes = passes;
+    }
+  }
+
+  public recordPassPercentage(
+    bucket: number,
+    threshold: number,
+    passes: boolean,
+  ) {
+    const rule = this.currentSpecFrame()?.currentRule;
+    if (rule != null) {
+      rule.passPercentage = { bucket, threshold, passes };
+    }
+  }
+
+  public beginCondition(condition: ConfigCondition) {
+    const trace: ConditionTrace = {
+      type: condition.type,
+      operator: condition.operator ?? null,
+      field: condition.field ?? null,
+      idType: condition.idType ?? null,
+      targetValue: condition.targetValue,
+      value: null,
+      passes: false,
+      unsupported: false,
+      gateChecks: [],
+    };
+    this.currentSpecFrame()?.currentRule?.conditions.push(trace);
+    this.conditionFrames.push({ trace, depth: this.specFrames.length });
+  }
+
+  public setConditionValue(value: unknown) {
+    const condition = this.currentCondition();
+    if (condition != null) {
+      condition.value = value;
+    }
+  }
+
+  public endCondition(result: { passes: boolean; unsupported?: boolean }) {
+    const frame = this.conditionFrames.pop();
+    if (frame == null) {
+      return;
+    }
+    frame.trace.passes = result.passes;
+    frame.trace.unsupported = result.unsupported === true;
+  }
+
+  private currentSpecFrame(): SpecFrame | null {
+    return this.specFrames[this.specFrames.length - 1] ?? null;
+  }
+
+  // A condition is only "current" while no nested spec has been entered on top of it
+  private currentCondition(): ConditionTrace | null {
+    const frame = this.conditionFrames[this.conditionFrames.length - 1];
+    if (frame == null || frame.depth !== this.specFrames.length) {
+      return null;
+    }
+    return frame.trace;
+  }
+}
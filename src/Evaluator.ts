@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { ConfigCondition, ConfigRule, ConfigSpec } from './ConfigSpec';
 import {
   HashingAlgorithm,
@@ -6,14 +7,25 @@ import {
   sha256Hash,
 } from './utils/Hashing';
 import { getSDKType, getSDKVersion, notEmpty } from './utils/core';
+import { parseDate, versionCompare } from './utils/EvaluatorUtils';
+import { IDListStats } from './utils/IDListUtil';
+import LRUCache from './utils/LRUCache';
 
 import { ClientInitializeResponseOptions } from './StatsigServer';
 import ConfigEvaluation from './ConfigEvaluation';
 import Diagnostics from './Diagnostics';
 import { EvaluationDetails } from './EvaluationDetails';
-import { ExplicitStatsigOptions } from './StatsigOptions';
+import EvaluationTracer, { SpecTrace } from './EvaluationTrace';
+import {
+  CustomConditionEvaluator,
+  CustomConditionResult,
+  CustomOperator,
+  ExplicitStatsigOptions,
+} from './StatsigOptions';
 import { SecondaryExposure } from './LogEvent';
+import { getCompiledCondition } from './SpecCompiler';
 import SpecStore from './SpecStore';
+import { SpecsChangedListener } from './SpecsDiff';
 import StatsigFetcher from './utils/StatsigFetcher';
 import { StatsigUser } from './StatsigUser';
 import parseUserAgent from './utils/parseUserAgent';
@@ -53,6 +65,22 @@ export type ClientInitializeResponse = {
   user: StatsigUser;
 };
 
+/**
+ * Overrides applied by runWithOverrides, for every user evaluated within the
+ * async context of the callback
+ */
+export type StatsigOverrides = {
+  gates?: Record<string, boolean>;
+  configs?: Record<string, Record<string, unknown>>;
+  layers?: Record<string, Record<string, unknown>>;
+};
+
+type ConditionResult = {
+  passes: boolean;
+  unsupported?: boolean;
+  exposures?: SecondaryExposure[];
+};
+
 export default class Evaluator {
   private gateOverrides: Record<string, Record<string, boolean>>;
   private configOverrides: Record<
@@ -63,7 +91,12 @@ export default class Evaluator {
     string,
     Record<string, Record<string, unknown>>
   >;
+  private scopedOverrides: AsyncLocalStorage<StatsigOverrides> =
+    new AsyncLocalStorage();
   private initialized: boolean = false;
+  private tracer: EvaluationTracer | null = null;
+  private customConditionEvaluators: Map<string, CustomConditionEvaluator>;
+  private customOperators: Map<string, CustomOperator>;
 
   private store: SpecStore;
 
@@ -77,6 +110,10 @@ export default class Evaluator {
     this.gateOverrides = {};
     this.configOverrides = {};
     this.layerOverrides = {};
+    this.customConditionEvaluators = toLowercaseKeyedMap(
+      options.customConditionEvaluators,
+    );
+    this.customOperators = toLowercaseKeyedMap(options.customOperators);
   }
 
   public async init(): Promise<void> {
@@ -114,6 +151,19 @@ export default class Evaluator {
     this.layerOverrides[layerName] = overrides;
   }
 
+  // Nested calls keep the outer overrides that the inner ones don't replace
+  public runWithOverrides<T>(overrides: StatsigOverrides, fn: () => T): T {
+    const outer = this.scopedOverrides.getStore();
+    return this.scopedOverrides.run(
+      {
+        gates: { ...outer?.gates, ...overrides.gates },
+        configs: { ...outer?.configs, ...overrides.configs },
+        layers: { ...outer?.layers, ...overrides.layers },
+      },
+      fn,
+    );
+  }
+
   public checkGate(user: StatsigUser, gateName: string): ConfigEvaluation {
     const override = this.lookupGateOverride(user, gateName);
     if (override) {
@@ -177,6 +227,73 @@ export default class Evaluator {
     return this._evalSpec(user, this.store.getLayer(layerName));
   }
 
+  /**
+   * Evaluates the gate, config or layer in trace mode, recording every rule and condition visited
+   */
+  public explain(
+    user: StatsigUser,
+    name: string,
+    entityType: 'gate' | 'config' | 'layer',
+  ): { evaluation: ConfigEvaluation; trace: SpecTrace | null } {
+    const previousTracer = this.tracer;
+    const tracer = new EvaluationTracer();
+    this.tracer = tracer;
+    try {
+      let evaluation: ConfigEvaluation;
+      switch (entityType) {
+        case 'gate':
+          evaluation = this.checkGate(user, name);
+          break;
+        case 'config':
+          evaluation = this.getConfig(user, name);
+          break;
+        case 'layer':
+          evaluation = this.getLayer(user, name);
+          break;
+      }
+      return { evaluation, trace: tracer.getTrace() };
+    } finally {
+      this.tracer = previousTracer;
+    }
+  }
+
+  /**
+   * Evaluates every gate, config and layer in the store that passes the given filter
+   */
+  public getAllEvaluations(
+    user: StatsigUser,
+    filter: (spec: ConfigSpec) => boolean,
+  ): {
+    gates: Record<string, ConfigEvaluation>;
+    configs: Record<string, ConfigEvaluation>;
+    layers: Record<string, ConfigEvaluation>;
+  } {
+    const evaluateAll = (
+      specs: Record<string, ConfigSpec>,
+      evaluate: (user: StatsigUser, name: string) => ConfigEvaluation,
+    ) => {
+      const evaluations: Record<string, ConfigEvaluation> = {};
+      for (const [name, spec] of Object.entries(specs)) {
+        if (filter(spec)) {
+          evaluations[name] = evaluate(user, name);
+        }
+      }
+      return evaluations;
+    };
+
+    return {
+      gates: evaluateAll(this.store.getAllGates(), (u, name) =>
+        this.checkGate(u, name),
+      ),
+      configs: evaluateAll(this.store.getAllConfigs(), (u, name) =>
+        this.getConfig(u, name),
+      ),
+      layers: evaluateAll(this.store.getAllLayers(), (u, name) =>
+        this.getLayer(u, name),
+      ),
+    };
+  }
+
   public getClientInitializeResponse(
     user: StatsigUser,
     options?: ClientInitializeResponseOptions,
@@ -318,6 +435,35 @@ export default class Evaluator {
     return this.store.resetSyncTimerIfExited();
   }
 
+  public onSpecsChanged(listener: SpecsChangedListener): () => void {
+    return this.store.addSpecsChangedListener(listener);
+  }
+
+  public getIDListStats(): IDListStats[] {
+    return this.store.getIDListStats();
+  }
+
+  public isInIDList(listName: string, unitID: string): boolean {
+    const list = this.store.getIDList(listName)?.ids;
+    return list != null && list.has(hashUnitIDForIDList(unitID));
+  }
+
+  public getSpecsSnapshotTimes(): number[] {
+    return this.store.getSpecsSnapshotTimes();
+  }
+
+  public rollbackSpecs(time: number): boolean {
+    return this.store.rollbackSpecs(time);
+  }
+
+  public pinSpecs(): void {
+    this.store.pinSpecs();
+  }
+
+  public unpinSpecs(): Promise<void> {
+    return this.store.unpinSpecs();
+  }
+
   public syncBootstrapValues(bootstrapValues: string): void {
     this.store.syncBootstrapValues(bootstrapValues);
   }
@@ -353,6 +499,11 @@ export default class Evaluator {
     user: StatsigUser,
     gateName: string,
   ): ConfigEvaluation | null {
+    const scoped = this.scopedOverrides.getStore()?.gates?.[gateName];
+    if (typeof scoped === 'boolean') {
+      return new ConfigEvaluation(scoped, 'override');
+    }
+
     const overrides = this.gateOverrides[gateName];
     if (overrides == null) {
       return null;
@@ -377,22 +528,29 @@ export default class Evaluator {
     user: StatsigUser,
     configName: string,
   ): ConfigEvaluation | null {
+    const scoped = this.scopedOverrides.getStore()?.configs?.[configName];
     const overrides = this.configOverrides[configName];
-    return this.lookupConfigBasedOverride(user, overrides);
+    return this.lookupConfigBasedOverride(user, overrides, scoped);
   }
 
   private lookupLayerOverride(
     user: StatsigUser,
     layerName: string,
   ): ConfigEvaluation | null {
+    const scoped = this.scopedOverrides.getStore()?.layers?.[layerName];
     const overrides = this.layerOverrides[layerName];
-    return this.lookupConfigBasedOverride(user, overrides);
+    return this.lookupConfigBasedOverride(user, overrides, scoped);
   }
 
   private lookupConfigBasedOverride(
     user: StatsigUser,
     overrides: Record<string, Record<string, unknown>>,
+    scoped?: Record<string, unknown>,
   ): ConfigEvaluation | null {
+    if (scoped != null && typeof scoped === 'object') {
+      return new ConfigEvaluation(true, 'override', null, [], scoped);
+    }
+
     if (overrides == null) {
       return null;
     }
@@ -486,6 +644,17 @@ export default class Evaluator {
   }
 
   _eval(user: StatsigUser, config: ConfigSpec): ConfigEvaluation {
+    if (this.tracer == null) {
+      return this._evalImpl(user, config);
+    }
+
+    this.tracer.enterSpec(config);
+    const evaluation = this._evalImpl(user, config);
+    this.tracer.exitSpec(evaluation);
+    return evaluation;
+  }
+
+  private _evalImpl(user: StatsigUser, config: ConfigSpec): ConfigEvaluation {
     if (!config.enabled) {
       return new ConfigEvaluation(
         false,
@@ -588,9 +757,11 @@ export default class Evaluator {
         '.' +
         (this._getUnitID(user, rule.idType) ?? ''),
     );
-    return (
-      Number(hash % BigInt(CONDITION_SEGMENT_COUNT)) < rule.passPercentage * 100
-    );
+    const bucket = Number(hash % BigInt(CONDITION_SEGMENT_COUNT));
+    const threshold = rule.passPercentage * 100;
+    const pass = bucket < threshold;
+    this.tracer?.recordPassPercentage(bucket, threshold, pass);
+    return pass;
   }
 
   _getUnitID(user: StatsigUser, idType: string) {
@@ -607,10 +778,12 @@ export default class Evaluator {
   _evalRule(user: StatsigUser, rule: ConfigRule) {
     let secondaryExposures: SecondaryExposure[] = [];
     let pass = true;
+    this.tracer?.startRule(rule);
 
     for (const condition of rule.conditions) {
       const result = this._evalCondition(user, condition);
       if (result.unsupported) {
+        this.tracer?.endRule(false);
         return ConfigEvaluation.unsupported(
           this.store.getLastUpdateTime(),
           this.store.getInitialUpdateTime(),
@@ -626,6 +799,7 @@ export default class Evaluator {
         secondaryExposures = secondaryExposures.concat(result.exposures);
       }
     }
+    this.tracer?.endRule(pass);
 
     const evaluation = new ConfigEvaluation(
       pass,
@@ -641,16 +815,29 @@ export default class Evaluator {
   _evalCondition(
     user: StatsigUser,
     condition: ConfigCondition,
-  ): {
-    passes: boolean;
-    unsupported?: boolean;
-    exposures?: SecondaryExposure[];
-  } {
+  ): ConditionResult {
+    if (this.tracer == null) {
+      return this._evalConditionImpl(user, condition);
+    }
+
+    this.tracer.beginCondition(condition);
+    const result = this._evalConditionImpl(user, condition);
+    this.tracer.endCondition(result);
+    return result;
+  }
+
+  private _evalConditionImpl(
+    user: StatsigUser,
+    condition: ConfigCondition,
+  ): ConditionResult {
     let value = null;
+    let exposures: SecondaryExposure[] | undefined;
     const field = condition.field;
     const target = condition.targetValue;
     const idType = condition.idType;
-    switch (condition.type.toLowerCase()) {
+    const compiled = getCompiledCondition(condition);
+    const type = compiled?.type ?? condition.type.toLowerCase();
+    switch (type) {
       case 'public':
         return { passes: true };
       case 'fail_gate':
@@ -660,6 +847,7 @@ export default class Evaluator {
           return { passes: false, unsupported: true };
         }
         value = gateResult?.value;
+        this.tracer?.setConditionValue(value);
 
         const allExposures = gateResult?.secondary_exposures ?? [];
         allExposures.push({
@@ -669,8 +857,7 @@ export default class Evaluator {
         });
 
         return {
-          passes:
-            condition.type.toLowerCase() === 'fail_gate' ? !value : !!value,
+          passes: type === 'fail_gate' ? !value : !!value,
           exposures: allExposures,
         };
       }
@@ -736,11 +923,27 @@ export default class Evaluator {
       case 'unit_id':
         value = this._getUnitID(user, idType);
         break;
-      default:
-        return { passes: false, unsupported: true };
+      default: {
+        const custom = this._evalCustomCondition(user, condition);
+        if (custom == null || custom.unsupported === true) {
+          return { passes: false, unsupported: true };
+        }
+        exposures = custom.secondaryExposures;
+        if (typeof custom.passes === 'boolean') {
+          this.tracer?.setConditionValue(custom.value ?? null);
+          return { passes: custom.passes, exposures };
+        }
+        value = custom.value;
+        break;
+      }
     }
+    this.tracer?.setConditionValue(value);
 
-    const op = condition.operator?.toLowerCase();
+    if (compiled?.test != null) {
+      return { passes: compiled.test(value), exposures };
+    }
+
+    const op = compiled?.operator ?? condition.operator?.toLowerCase();
     let evalResult = false;
     switch (op) {
       // numerical
@@ -901,9 +1104,7 @@ export default class Evaluator {
         break;
       case 'in_segment_list':
       case 'not_in_segment_list': {
-        const list = this.store.getIDList(target as string)?.ids;
-        value = hashUnitIDForIDList(value);
-        const inList = typeof list === 'object' && list[value] === true;
+        const inList = this.isInIDList(target as string, value as string);
         evalResult = op === 'in_segment_list' ? inList : !inList;
         break;
       }
@@ -955,10 +1156,50 @@ export default class Evaluator {
         evalResult = !arrayHasAllValues(value as unknown[], target as string[]);
         break;
       }
-      default:
-        return { passes: false, unsupported: true };
+      default: {
+        const customResult = this._evalCustomOperator(op, value, condition);
+        if (customResult == null) {
+          return { passes: false, unsupported: true };
+        }
+        evalResult = customResult;
+      }
+    }
+    return { passes: evalResult, exposures };
+  }
+
+  // Custom handlers only run for types and operators the SDK does not know.
+  // A missing or throwing handler is treated like any other unsupported condition.
+  private _evalCustomCondition(
+    user: StatsigUser,
+    condition: ConfigCondition,
+  ): CustomConditionResult | null {
+    const evaluator = this.customConditionEvaluators.get(
+      condition.type.toLowerCase(),
+    );
+    if (evaluator == null) {
+      return null;
+    }
+    try {
+      return evaluator(user, condition) ?? null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private _evalCustomOperator(
+    op: string | undefined,
+    value: unknown,
+    condition: ConfigCondition,
+  ): boolean | null {
+    const operator = op != null ? this.customOperators.get(op) : undefined;
+    if (operator == null) {
+      return null;
+    }
+    try {
+      return operator(value, condition.targetValue, condition) === true;
+    } catch (e) {
+      return null;
     }
-    return { passes: evalResult };
   }
 
   _isExperimentActive(experimentConfig: ConfigSpec | null) {
@@ -980,24 +1221,30 @@ export default class Evaluator {
   }
 }
 
-const hashLookupTable: Map<string, bigint> = new Map();
+const USER_HASH_CACHE_SIZE = 100 * 1000;
+const userHashCache = new LRUCache<string, bigint>(USER_HASH_CACHE_SIZE);
 
 export function computeUserHash(userHash: string) {
-  const existingHash = hashLookupTable.get(userHash);
-  if (existingHash) {
+  const existingHash = userHashCache.get(userHash);
+  if (existingHash !== undefined) {
     return existingHash;
   }
 
   const hash = sha256Hash(userHash).getBigUint64(0, false);
-
-  if (hashLookupTable.size > 100000) {
-    hashLookupTable.clear();
-  }
-
-  hashLookupTable.set(userHash, hash);
+  userHashCache.set(userHash, hash);
   return hash;
 }
 
+function toLowercaseKeyedMap<T>(record: Record<string, T>): Map<string, T> {
+  const map = new Map<string, T>();
+  Object.entries(record).forEach(([key, value]) => {
+    if (typeof value === 'function') {
+      map.set(key.toLowerCase(), value);
+    }
+  });
+  return map;
+}
+
 function getFromUser(user: StatsigUser, field: string): any | null {
   if (typeof user !== 'object') {
     return null;
@@ -1091,55 +1338,6 @@ function versionCompareHelper(
   };
 }
 
-// Compare two version strings without the extensions.
-// returns -1, 0, or 1 if first is smaller than, equal to, or larger than second.
-// returns false if any of the version strings is not valid.
-function versionCompare(first: string, second: string): number | null {
-  if (typeof first !== 'string' || typeof second !== 'string') {
-    return null;
-  }
-  const version1 = removeVersionExtension(first);
-  const version2 = removeVersionExtension(second);
-  if (version1.length === 0 || version2.length === 0) {
-    return null;
-  }
-
-  const parts1 = version1.split('.');
-  const parts2 = version2.split('.');
-  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
-    if (parts1[i] === undefined) {
-      parts1[i] = '0';
-    }
-    if (parts2[i] === undefined) {
-      parts2[i] = '0';
-    }
-    const n1 = Number(parts1[i]);
-    const n2 = Number(parts2[i]);
-    if (
-      typeof n1 !== 'number' ||
-      typeof n2 !== 'number' ||
-      isNaN(n1) ||
-      isNaN(n2)
-    ) {
-      return null;
-    }
-    if (n1 < n2) {
-      return -1;
-    } else if (n1 > n2) {
-      return 1;
-    }
-  }
-  return 0;
-}
-
-function removeVersionExtension(version: string): string {
-  const hyphenIndex = version.indexOf('-');
-  if (hyphenIndex >= 0) {
-    return version.substr(0, hyphenIndex);
-  }
-  return version;
-}
-
 function stringCompare(
   ignoreCase: boolean,
   fn: (a: string, b: string) => boolean,
@@ -1162,19 +1360,9 @@ function dateCompare(
       return false;
     }
     try {
-      // Try to parse into date as a string first, if not, try unixtime
-      let dateA = new Date(a);
-      if (isNaN(dateA.getTime())) {
-        dateA = new Date(Number(a));
-      }
-
-      let dateB = new Date(b);
-      if (isNaN(dateB.getTime())) {
-        dateB = new Date(Number(b));
-      }
-      return (
-        !isNaN(dateA.getTime()) && !isNaN(dateB.getTime()) && fn(dateA, dateB)
-      );
+      const dateA = parseDate(a);
+      const dateB = parseDate(b);
+      return dateA != null && dateB != null && fn(dateA, dateB);
     } catch (e) {
       // malformatted input, returning false
       return false;
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+
+import { IEventExporter } from './interfaces/IEventExporter';
+import { LogEventData } from './LogEvent';
+
+function toNDJSON(events: LogEventData[]): string {
+  return events.map((event) => JSON.stringify(event) + '\n').join('');
+}
+
+/**
+ * Appends each flushed event to a file as one line of JSON.
+ */
+export class NDJSONFileEventExporter implements IEventExporter {
+  private filePath: string;
+
+  public constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async export(events: LogEventData[]): Promise<void> {
+    await fs.promises.appendFile(this.filePath, toNDJSON(events));
+  }
+}
+
+/**
+ * Writes each flushed event to stdout as one line of JSON.
+ */
+export class StdoutEventExporter implements IEventExporter {
+  private stream: NodeJS.WritableStream;
+
+  public constructor(stream: NodeJS.WritableStream = process.stdout) {
+    this.stream = stream;
+  }
+
+  public export(events: LogEventData[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.write(toNDJSON(events), (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  AdapterResponse,
+  DataAdapterKey,
+  IDataAdapter,
+} from './interfaces/IDataAdapter';
+
+export type FileDataAdapterOptions = {
+  /**
+   * Keys the SDK should keep polling from disk, e.g. when another process on
+   * the host owns the network sync and writes updates into this directory
+   */
+  pollingUpdatesFor?: DataAdapterKey[];
+};
+
+type StoredValue = {
+  time: number;
+  value: string;
+};
+
+let tempFileCounter = 0;
+
+/**
+ * An IDataAdapter that keeps each key in its own file inside a directory.
+ * Writes go to a temporary file that is renamed into place, so readers in other
+ * processes only ever see a complete value. Appending in place would break
+ * that, so the adapter has no append and ID lists are saved in full.
+ */
+export default class FileDataAdapter implements IDataAdapter {
+  private directory: string;
+  private pollingUpdatesFor: DataAdapterKey[];
+
+  public constructor(directory: string, options: FileDataAdapterOptions = {}) {
+    this.directory = directory;
+    this.pollingUpdatesFor = options.pollingUpdatesFor ?? [];
+  }
+
+  public async get(key: string): Promise<AdapterResponse> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.getFilePath(key), 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      return { error: e as Error };
+    }
+
+    try {
+      const stored = JSON.parse(contents) as StoredValue;
+      return { result: stored.value, time: stored.time };
+    } catch (e) {
+      return { error: e as Error };
+    }
+  }
+
+  public async set(key: string, value: string, time?: number): Promise<void> {
+    const stored: StoredValue = { time: time ?? Date.now(), value };
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, JSON.stringify(stored));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (e) {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+      throw e;
+    }
+  }
+
+  public async initialize(): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+  }
+
+  public async shutdown(): Promise<void> {
+    // Files are left in place for other processes and the next startup
+  }
+
+  public supportsPollingUpdatesFor(key: DataAdapterKey): boolean {
+    return this.pollingUpdatesFor.indexOf(key) !== -1;
+  }
+
+  private getFilePath(key: string): string {
+    // Keys such as 'statsig.id_lists::<name>' contain characters that are not
+    // valid in file names on every platform
+    const fileName = key.replace(
+      /[^A-Za-z0-9._-]/g,
+      (char) => '%' + char.charCodeAt(0).toString(16).toUpperCase(),
+    );
+    return path.join(this.directory, fileName);
+  }
+}
@@ -4,12 +4,25 @@ import LogEvent, { LogEventData, SecondaryExposure } from './LogEvent';
 
 import ConfigEvaluation from './ConfigEvaluation';
 import { EvaluationDetails } from './EvaluationDetails';
-import { ExplicitStatsigOptions } from './StatsigOptions';
+import {
+  EventSamplingRule,
+  ExplicitStatsigOptions,
+  RetryBackoffFunc,
+} from './StatsigOptions';
 import { Marker } from './Diagnostics';
+import ErrorBoundary from './ErrorBoundary';
 import StatsigFetcher from './utils/StatsigFetcher';
-import { StatsigLocalModeNetworkError } from './Errors';
+import {
+  StatsigLocalModeNetworkError,
+  StatsigRequestTimeoutError,
+} from './Errors';
 import { StatsigUser } from './StatsigUser';
 import { DEFAULT_API } from './SpecStore';
+import { IEventExporter } from './interfaces/IEventExporter';
+import OutputLogger from './OutputLogger';
+import { sha256Hash } from './utils/Hashing';
+import LRUCache from './utils/LRUCache';
+import PersistentEventQueue, { DroppedEvents } from './PersistentEventQueue';
 
 const CONFIG_EXPOSURE_EVENT = 'config_exposure';
 const LAYER_EXPOSURE_EVENT = 'layer_exposure';
@@ -17,8 +30,13 @@ const GATE_EXPOSURE_EVENT = 'gate_exposure';
 const DIAGNOSTIC_EVENT = 'diagnostics';
 const INTERNAL_EVENT_PREFIX = 'statsig::';
 const DEFAULT_VALUE_WARNING = 'default_value_type_mismatch';
+const DEFAULT_EXPORT_TIMEOUT_MS = 5 * 1000;
 
-const deduperInterval = 60 * 1000;
+type ExposureAssignment = {
+  name: string;
+  ruleID: string;
+  groupName: string | null;
+};
 
 const ignoredMetadataKeys = new Set([
   'serverTime',
@@ -27,35 +45,129 @@ const ignoredMetadataKeys = new Set([
   'reason',
 ]);
 
+function isSampledIn(
+  event: LogEventData,
+  rule: EventSamplingRule,
+  rate: number,
+): boolean {
+  if (rule.strategy === 'unit_id') {
+    const unitID = getUnitID(event.user, rule.idType ?? 'userID');
+    if (unitID != null) {
+      // Salted with the event name so each event samples a different set of units
+      const hash = sha256Hash(event.eventName + '.' + unitID).getUint32(0);
+      return hash / 0x100000000 < rate;
+    }
+  }
+  return Math.random() < rate;
+}
+
+function getUnitID(user: StatsigUser | null, idType: string): string | null {
+  if (user == null) {
+    return null;
+  }
+  if (idType.toLowerCase() === 'userid') {
+    return user.userID ?? null;
+  }
+  const customIDs = user.customIDs ?? {};
+  const match = Object.keys(customIDs).find(
+    (key) => key.toLowerCase() === idType.toLowerCase(),
+  );
+  return match != null ? customIDs[match] : null;
+}
+
+class ExportTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Export timed out after ${timeoutMs}ms`);
+
+    Object.setPrototypeOf(this, ExportTimeoutError.prototype);
+  }
+}
+
+// Settles with the task, or rejects once timeoutMs passes. 0 waits for the task
+function withTimeout<T>(task: Promise<T>, timeoutMs: number): Promise<T> {
+  if (timeoutMs <= 0) {
+    return task;
+  }
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new ExportTimeoutError(timeoutMs)),
+      timeoutMs,
+    );
+    timer.unref();
+    task.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
 export default class LogEventProcessor {
   private options: ExplicitStatsigOptions;
   private fetcher: StatsigFetcher;
+  private errorBoundary: ErrorBoundary;
 
   private queue: LogEventData[];
   private flushTimer: NodeJS.Timer | null;
 
   private loggedErrors: Set<string>;
-  private deduper: Set<string>;
-  private deduperTimer: NodeJS.Timer | null;
+  // Time each exposure was last logged, by dedupe key
+  private deduper: LRUCache<string, number>;
   private _nonExposedChecks: Record<string, number> = {};
-
-  public constructor(fetcher: StatsigFetcher, options: ExplicitStatsigOptions) {
+  private _suppressedExposures: Record<string, number> = {};
+  private persistentQueue: PersistentEventQueue | null = null;
+  private isReplaying = false;
+  private isShutdown = false;
+
+  public constructor(
+    fetcher: StatsigFetcher,
+    options: ExplicitStatsigOptions,
+    errorBoundary: ErrorBoundary = new ErrorBoundary(''),
+  ) {
     this.options = options;
     this.fetcher = fetcher;
+    this.errorBoundary = errorBoundary;
 
     this.queue = [];
-    this.deduper = new Set();
+    this.deduper = new LRUCache(options.exposureDedupeMaxKeys);
     this.loggedErrors = new Set();
 
     const processor = this;
     this.flushTimer = poll(() => {
       processor.flush();
     }, options.loggingIntervalMs);
-    this.deduperTimer = poll(() => {
-      processor.deduper.clear();
-    }, deduperInterval);
+
+    if (options.persistentEventQueue != null && !options.localMode) {
+      this.persistentQueue = new PersistentEventQueue(
+        options.persistentEventQueue,
+      );
+      process.on('exit', this.spillPendingEvents);
+    }
+  }
+
+  // Picks up batches left behind by a previous process, once initialize is done
+  public onInitialized(): void {
+    this._replayPersistedEvents();
   }
 
+  // Events still queued when the process exits are kept for the next start
+  private spillPendingEvents = () => {
+    if (this.persistentQueue == null || this.queue.length === 0) {
+      return;
+    }
+    try {
+      this.persistentQueue.addSync(this.queue);
+      this.queue = [];
+    } catch {
+      // The process is exiting, there is nothing left to fall back to
+    }
+  };
+
   public log(event: LogEvent, errorKey: string | null = null): void {
     if (this.options.localMode) {
       return;
@@ -75,35 +187,136 @@ export default class LogEventProcessor {
       this.loggedErrors.add(errorKey);
     }
 
-    this.queue.push(event.toObject());
+    const sampled = this._applySampling(event.toObject());
+    if (sampled == null) {
+      return;
+    }
+    const eventData = this._applyBeforeLogEvent(sampled);
+    if (eventData == null) {
+      return;
+    }
+
+    this.queue.push(eventData);
     if (this.queue.length >= this.options.loggingMaxBufferSize) {
       this.flush();
     }
   }
 
+  // Kept events record the rate they were sampled at, so they can be re-weighted
+  private _applySampling(event: LogEventData): LogEventData | null {
+    const rule = this.options.eventSampling[event.eventName];
+    if (rule == null) {
+      return event;
+    }
+    const rate = Math.min(Math.max(rule.rate, 0), 1);
+    if (!isSampledIn(event, rule, rate)) {
+      return null;
+    }
+    return { ...event, metadata: { ...event.metadata, samplingRate: rate } };
+  }
+
+  // Only an explicit null drops the event. A hook that throws is reported by
+  // the error boundary and the event is kept as is
+  private _applyBeforeLogEvent(event: LogEventData): LogEventData | null {
+    const hook = this.options.beforeLogEvent;
+    if (hook == null) {
+      return event;
+    }
+    return this.errorBoundary.capture(
+      () => {
+        const result = hook(event);
+        return result === undefined ? event : result;
+      },
+      () => event,
+    );
+  }
+
   public async flush(fireAndForget = false): Promise<void> {
     this._appendAndResetNonExposedChecks();
 
     if (this.queue.length === 0) {
-      return Promise.resolve();
+      return fireAndForget ? Promise.resolve() : this._replayPersistedEvents();
     }
     const oldQueue = this.queue;
     this.queue = [];
-    const body = {
-      statsigMetadata: getStatsigMetadata(),
-      events: oldQueue,
-    };
-    return this.fetcher
-      .post(
-        (this.options.api ?? DEFAULT_API) + '/log_event',
-        body,
-        fireAndForget ? 0 : this.options.postLogsRetryLimit,
-        this.options.postLogsRetryBackoff,
-      )
-      .then(() => {
-        return Promise.resolve();
+    const uploads = this._splitBatches(oldQueue).map((batch) =>
+      this._uploadBatch(batch, fireAndForget),
+    );
+    const exports = this.options.eventExporters.map((exporter) =>
+      this._export(
+        exporter,
+        oldQueue,
+        fireAndForget
+          ? 0
+          : (exporter.retryLimit ?? this.options.postLogsRetryLimit),
+        exporter.retryBackoffMs ?? this.options.postLogsRetryBackoff,
+      ),
+    );
+    await Promise.all([...uploads, ...exports]);
+  }
+
+  // Splits events into batches whose request bodies stay under
+  // loggingMaxBatchBytes. An event larger than that is sent on its own
+  private _splitBatches(events: LogEventData[]): LogEventData[][] {
+    const maxBytes = this.options.loggingMaxBatchBytes;
+    const overhead = Buffer.byteLength(
+      JSON.stringify({ statsigMetadata: getStatsigMetadata(), events: [] }),
+    );
+    const batches: LogEventData[][] = [];
+    let batch: LogEventData[] = [];
+    let batchBytes = overhead;
+    events.forEach((event) => {
+      // Events are separated by a comma in the serialized array
+      const eventBytes = Buffer.byteLength(JSON.stringify(event)) + 1;
+      if (batch.length > 0 && batchBytes + eventBytes > maxBytes) {
+        batches.push(batch);
+        batch = [];
+        batchBytes = overhead;
+      }
+      batch.push(event);
+      batchBytes += eventBytes;
+    });
+    batches.push(batch);
+    return batches;
+  }
+
+  private _uploadBatch(
+    events: LogEventData[],
+    fireAndForget: boolean,
+  ): Promise<void> {
+    if (this.persistentQueue == null) {
+      return this._sendBatch(events, null, fireAndForget);
+    }
+    return this._persistBatch(events).then((batchID) =>
+      this._sendBatch(events, batchID, fireAndForget),
+    );
+  }
+
+  private _sendBatch(
+    events: LogEventData[],
+    batchID: string | null,
+    fireAndForget: boolean,
+  ): Promise<void> {
+    return this._postEvents(
+      events,
+      fireAndForget ? 0 : this.options.postLogsRetryLimit,
+    )
+      .then(async () => {
+        if (batchID != null) {
+          await this.persistentQueue?.remove(batchID);
+        }
+        return fireAndForget
+          ? Promise.resolve()
+          : this._replayPersistedEvents();
       })
       .catch((e) => {
+        if (batchID != null) {
+          // Left on disk to be replayed by a later flush
+          this.persistentQueue?.release(batchID);
+        }
+        if (e instanceof StatsigRequestTimeoutError) {
+          this._logTimeoutDiagnostics();
+        }
         if (!fireAndForget && !(e instanceof StatsigLocalModeNetworkError)) {
           this.logStatsigInternal(null, 'log_event_failed', {
             error: e?.message || 'log_event_failed',
@@ -114,15 +327,186 @@ export default class LogEventProcessor {
   }
 
   public async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    if (this.persistentQueue != null) {
+      process.removeListener('exit', this.spillPendingEvents);
+    }
     if (this.flushTimer != null) {
       clearTimeout(this.flushTimer);
       this.flushTimer = null;
     }
-    if (this.deduperTimer != null) {
-      clearTimeout(this.deduperTimer);
-      this.deduperTimer = null;
+    await this.flush(true);
+    await Promise.all(
+      this.options.eventExporters.map((exporter) =>
+        withTimeout(
+          Promise.resolve().then(() => exporter.shutdown?.()),
+          this._getExportTimeout(exporter),
+        ).catch((e) => {
+          if (e instanceof ExportTimeoutError) {
+            OutputLogger.getLogger().error(
+              'statsigSDK> Event exporter shutdown timed out',
+              e,
+            );
+          }
+        }),
+      ),
+    );
+  }
+
+  private _postEvents(events: LogEventData[], retries: number): Promise<void> {
+    return this.fetcher
+      .post(
+        (this.options.api ?? DEFAULT_API) + '/log_event',
+        { statsigMetadata: getStatsigMetadata(), events },
+        retries,
+        this.options.postLogsRetryBackoff,
+        false,
+        {
+          compress: this.options.compressLogEvents,
+          timeoutMs: this.options.logEventTimeoutMs,
+        },
+      )
+      .then(() => undefined);
+  }
+
+  // Written before the upload starts, so the batch survives a crash mid-flight
+  private async _persistBatch(events: LogEventData[]): Promise<string | null> {
+    const queue = this.persistentQueue;
+    if (queue == null) {
+      return null;
+    }
+    try {
+      const batchID = await queue.add(events, true);
+      this._logDroppedEvents(await queue.prune());
+      return batchID;
+    } catch (e) {
+      OutputLogger.getLogger().error(
+        'statsigSDK> Failed to persist events',
+        e as Error,
+      );
+      return null;
+    }
+  }
+
+  private async _replayPersistedEvents(): Promise<void> {
+    const queue = this.persistentQueue;
+    if (queue == null || this.isReplaying || !queue.canReplay()) {
+      return;
+    }
+    this.isReplaying = true;
+    try {
+      this._logDroppedEvents(await queue.prune());
+      // Listed once; batches stored meanwhile wait for the next replay
+      const batches = await queue.listBatches();
+      for (let i = 0; i < batches.length; i++) {
+        const batch = batches[i];
+        const events = await queue.take(batch);
+        if (events == null) {
+          await queue.remove(batch.id);
+          this._logDroppedEvents([
+            { reason: 'unreadable', batches: 1, events: batch.eventCount },
+          ]);
+          continue;
+        }
+        try {
+          await this._postEvents(events, 0);
+        } catch {
+          queue.release(batch.id);
+          queue.recordReplayFailure();
+          return;
+        }
+        await queue.remove(batch.id);
+        queue.recordReplaySuccess();
+      }
+    } catch (e) {
+      OutputLogger.getLogger().error(
+        'statsigSDK> Failed to replay persisted events',
+        e as Error,
+      );
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  private _logDroppedEvents(dropped: DroppedEvents[]) {
+    dropped.forEach((entry) => {
+      OutputLogger.getLogger().warn(
+        `statsigSDK> Dropped ${entry.events} persisted events (${entry.reason})`,
+      );
+      if (this.options.disableDiagnostics) {
+        return;
+      }
+      this.logDiagnosticsEvent({
+        context: 'event_logging',
+        markers: [
+          {
+            key: 'persistent_event_queue',
+            action: 'end',
+            step: null,
+            value: false,
+            timestamp: Date.now(),
+            metadata: {
+              reason: entry.reason,
+              droppedBatches: entry.batches,
+              droppedEvents: entry.events,
+            },
+          },
+        ],
+      });
+    });
+  }
+
+  private _logTimeoutDiagnostics(): void {
+    if (this.options.disableDiagnostics) {
+      return;
+    }
+    this.logDiagnosticsEvent({
+      context: 'event_logging',
+      markers: [
+        {
+          key: 'log_event',
+          action: 'end',
+          step: 'network_request',
+          value: 'timeout',
+          timestamp: Date.now(),
+        },
+      ],
+    });
+  }
+
+  // Failures stay with the exporter, so the Statsig upload and the other
+  // exporters are unaffected. Settles after the first attempt, retries run in
+  // the background so flush never waits out an exporter's backoff
+  private async _export(
+    exporter: IEventExporter,
+    events: LogEventData[],
+    retries: number,
+    backoff: number | RetryBackoffFunc,
+  ): Promise<void> {
+    try {
+      await withTimeout(
+        Promise.resolve().then(() => exporter.export(events)),
+        this._getExportTimeout(exporter),
+      );
+    } catch (e) {
+      if (retries <= 0 || e instanceof ExportTimeoutError || this.isShutdown) {
+        OutputLogger.getLogger().error(
+          'statsigSDK> Failed to export events',
+          e as Error,
+        );
+        return;
+      }
+      const delay = typeof backoff === 'number' ? backoff : backoff(retries);
+      setTimeout(() => {
+        if (!this.isShutdown) {
+          this._export(exporter, events, retries - 1, backoff);
+        }
+      }, delay).unref();
     }
-    return this.flush(true);
+  }
+
+  private _getExportTimeout(exporter: IEventExporter): number {
+    return exporter.timeoutMs ?? DEFAULT_EXPORT_TIMEOUT_MS;
   }
 
   public logStatsigInternal(
@@ -131,8 +515,9 @@ export default class LogEventProcessor {
     metadata: Record<string, unknown> | null,
     secondaryExposures: SecondaryExposure[] | null = null,
     value: string | number | null = null,
+    assignment: ExposureAssignment | null = null,
   ) {
-    if (!this.isUniqueExposure(user, eventName, metadata)) {
+    if (!this.isUniqueExposure(user, eventName, metadata, assignment)) {
       return;
     }
 
@@ -160,6 +545,11 @@ export default class LogEventProcessor {
     }
   }
 
+  // Counts since startup, keyed by event name, e.g. 'gate_exposure'
+  public getSuppressedExposureCounts(): Record<string, number> {
+    return { ...this._suppressedExposures };
+  }
+
   public incrementNonExposedChecks(name: string) {
     const current = this._nonExposedChecks[name] ?? 0;
     this._nonExposedChecks[name] = current + 1;
@@ -204,6 +594,8 @@ export default class LogEventProcessor {
       GATE_EXPOSURE_EVENT,
       metadata,
       evaluation.secondary_exposures,
+      null,
+      this.getAssignment(gateName, evaluation),
     );
   }
 
@@ -235,6 +627,8 @@ export default class LogEventProcessor {
       CONFIG_EXPOSURE_EVENT,
       metadata,
       evaluation.secondary_exposures,
+      null,
+      this.getAssignment(configName, evaluation),
     );
   }
 
@@ -273,7 +667,14 @@ export default class LogEventProcessor {
       evaluation.evaluation_details,
     );
 
-    this.logStatsigInternal(user, LAYER_EXPOSURE_EVENT, metadata, exposures);
+    this.logStatsigInternal(
+      user,
+      LAYER_EXPOSURE_EVENT,
+      metadata,
+      exposures,
+      null,
+      this.getAssignment(layerName, evaluation),
+    );
   }
 
   public logConfigDefaultValueFallback(
@@ -315,37 +716,72 @@ export default class LogEventProcessor {
     metadata['serverTime'] = evaluationDetails.serverTime;
   }
 
+  private getAssignment(
+    name: string,
+    evaluation: ConfigEvaluation,
+  ): ExposureAssignment {
+    return {
+      name,
+      ruleID: evaluation.rule_id,
+      groupName: evaluation.group_name,
+    };
+  }
+
   private isUniqueExposure(
     user: StatsigUser | null,
     eventName: string,
     metadata: Record<string, unknown> | null,
+    assignment: ExposureAssignment | null,
   ): boolean {
-    if (user == null) {
+    if (user == null || this.options.exposureDedupeWindowMs <= 0) {
       return true;
     }
-    let customIdKey = '';
-    if (user.customIDs && typeof user.customIDs === 'object') {
-      customIdKey = Object.values(user.customIDs).join();
-    }
 
-    let metadataKey = '';
-    if (metadata && typeof metadata === 'object') {
-      metadataKey = Object.entries(metadata)
-        .filter(([key, _value]) => !ignoredMetadataKeys.has(key))
-        .map(([_key, value]) => value)
-        .join();
+    // Keys are JSON encoded so values containing separators cannot collide
+    const unitIDs = [user.userID ?? null, user.customIDs ?? null];
+    let key: string;
+    if (
+      assignment != null &&
+      this.options.exposureDedupeStrategy === 'assignment'
+    ) {
+      const fields: unknown[] = [
+        unitIDs,
+        eventName,
+        assignment.name,
+        assignment.ruleID,
+        assignment.groupName,
+      ];
+      // Parameters of a layer can be delegated to different experiments
+      if (eventName === LAYER_EXPOSURE_EVENT) {
+        fields.push(
+          metadata?.allocatedExperiment ?? null,
+          metadata?.isExplicitParameter ?? null,
+        );
+      }
+      key = JSON.stringify(fields);
+    } else {
+      const metadataEntries =
+        metadata && typeof metadata === 'object'
+          ? Object.entries(metadata).filter(
+              ([name, _value]) => !ignoredMetadataKeys.has(name),
+            )
+          : [];
+      key = JSON.stringify([unitIDs, eventName, metadataEntries]);
     }
 
-    const keyList = [user.userID, customIdKey, eventName, metadataKey];
-    const key = keyList.join();
-    if (this.deduper.has(key)) {
+    // The window starts at the logged exposure, repeats do not extend it
+    const now = Date.now();
+    const loggedTime = this.deduper.get(key);
+    if (
+      loggedTime !== undefined &&
+      now - loggedTime < this.options.exposureDedupeWindowMs
+    ) {
+      this._suppressedExposures[eventName] =
+        (this._suppressedExposures[eventName] ?? 0) + 1;
       return false;
     }
 
-    this.deduper.add(key);
-    if (this.deduper.size > 100000) {
-      this.deduper.clear();
-    }
+    this.deduper.set(key, now);
     return true;
   }
 
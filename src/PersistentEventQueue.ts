@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { LogEventData } from './LogEvent';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MIN_REPLAY_BACKOFF_MS = 5 * 1000;
+const MAX_REPLAY_BACKOFF_MS = 10 * 60 * 1000;
+const BATCH_FILE_PATTERN = /^(\d+)-(\d+)-(\d+)-(\d+)\.json$/;
+
+export type PersistentEventQueueOptions = {
+  /**
+   * Directory the batches are written to.
+   * Use a separate directory for each process
+   */
+  directory: string;
+  /**
+   * Oldest batches are dropped once the directory grows past this size.
+   * Defaults to 10MB
+   */
+  maxBytes?: number;
+  /**
+   * Batches older than this are dropped. Defaults to 24 hours
+   */
+  maxAgeMs?: number;
+};
+
+export type DroppedEvents = {
+  reason: 'max_bytes' | 'max_age' | 'unreadable';
+  batches: number;
+  events: number;
+};
+
+export type StoredBatch = {
+  id: string;
+  time: number;
+  sequence: number;
+  eventCount: number;
+  bytes: number;
+};
+
+let batchSequence = 0;
+
+/**
+ * Keeps batches of events on disk until they are uploaded, so they survive
+ * failed uploads and process restarts.
+ * Batches being uploaded are held aside so they are not replayed twice.
+ */
+export default class PersistentEventQueue {
+  private directory: string;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private inFlight: Set<string> = new Set();
+  private replayFailures = 0;
+  private nextReplayTime = 0;
+  private createDirectory: Promise<void> | null = null;
+
+  public constructor(options: PersistentEventQueueOptions) {
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  public async add(events: LogEventData[], inFlight = false): Promise<string> {
+    const id = this.nextID(events);
+    if (inFlight) {
+      this.inFlight.add(id);
+    }
+    try {
+      await this.ensureDirectory();
+      const filePath = path.join(this.directory, id);
+      const tempPath = filePath + '.tmp';
+      await fs.promises.writeFile(tempPath, JSON.stringify(events));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (e) {
+      this.inFlight.delete(id);
+      throw e;
+    }
+    return id;
+  }
+
+  // Writes synchronously, for use while the process exits
+  public addSync(events: LogEventData[]): string {
+    const id = this.nextID(events);
+    const filePath = path.join(this.directory, id);
+    const tempPath = filePath + '.tmp';
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(events));
+    fs.renameSync(tempPath, filePath);
+    return id;
+  }
+
+  public async remove(id: string): Promise<void> {
+    try {
+      await fs.promises.unlink(path.join(this.directory, id));
+    } catch {
+      // Already removed, e.g. by pruning
+    }
+    this.inFlight.delete(id);
+  }
+
+  public release(id: string): void {
+    this.inFlight.delete(id);
+  }
+
+  // Stored batches that are not being uploaded, oldest first
+  public async listBatches(): Promise<StoredBatch[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const batches = await Promise.all(
+      names.map(async (name): Promise<StoredBatch | null> => {
+        const match = BATCH_FILE_PATTERN.exec(name);
+        if (match == null || this.inFlight.has(name)) {
+          return null;
+        }
+        try {
+          const stats = await fs.promises.stat(path.join(this.directory, name));
+          return {
+            id: name,
+            time: Number(match[1]),
+            sequence: Number(match[3]),
+            eventCount: Number(match[4]),
+            bytes: stats.size,
+          };
+        } catch {
+          return null;
+        }
+      }),
+    );
+    return batches
+      .filter((batch): batch is StoredBatch => batch != null)
+      .sort((a, b) =>
+        a.time !== b.time ? a.time - b.time : a.sequence - b.sequence,
+      );
+  }
+
+  // Takes a listed batch for replay; release or remove it afterwards.
+  // Resolves to null when the batch could not be read back
+  public async take(batch: StoredBatch): Promise<LogEventData[] | null> {
+    this.inFlight.add(batch.id);
+    try {
+      const contents = await fs.promises.readFile(
+        path.join(this.directory, batch.id),
+        'utf8',
+      );
+      return JSON.parse(contents) as LogEventData[];
+    } catch {
+      return null;
+    }
+  }
+
+  public canReplay(): boolean {
+    return Date.now() >= this.nextReplayTime;
+  }
+
+  public recordReplaySuccess(): void {
+    this.replayFailures = 0;
+    this.nextReplayTime = 0;
+  }
+
+  public recordReplayFailure(): void {
+    this.replayFailures++;
+    const backoff = Math.min(
+      MIN_REPLAY_BACKOFF_MS * Math.pow(2, this.replayFailures - 1),
+      MAX_REPLAY_BACKOFF_MS,
+    );
+    this.nextReplayTime = Date.now() + backoff;
+  }
+
+  // Drops expired batches, then the oldest ones until the size cap is met
+  public async prune(): Promise<DroppedEvents[]> {
+    const dropped: DroppedEvents[] = [];
+    const removals: Promise<void>[] = [];
+    const drop = (reason: DroppedEvents['reason'], batch: StoredBatch) => {
+      removals.push(this.remove(batch.id));
+      const existing = dropped.find((entry) => entry.reason === reason);
+      if (existing) {
+        existing.batches++;
+        existing.events += batch.eventCount;
+      } else {
+        dropped.push({ reason, batches: 1, events: batch.eventCount });
+      }
+    };
+
+    const oldestAllowed = Date.now() - this.maxAgeMs;
+    let remaining: StoredBatch[] = [];
+    (await this.listBatches()).forEach((batch) => {
+      if (batch.time < oldestAllowed) {
+        drop('max_age', batch);
+      } else {
+        remaining.push(batch);
+      }
+    });
+
+    let totalBytes = remaining.reduce((sum, batch) => sum + batch.bytes, 0);
+    while (totalBytes > this.maxBytes && remaining.length > 0) {
+      const oldest = remaining[0];
+      remaining = remaining.slice(1);
+      totalBytes -= oldest.bytes;
+      drop('max_bytes', oldest);
+    }
+    await Promise.all(removals);
+    return dropped;
+  }
+
+  private nextID(events: LogEventData[]): string {
+    return `${Date.now()}-${process.pid}-${++batchSequence}-${events.length}.json`;
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (this.createDirectory == null) {
+      this.createDirectory = fs.promises
+        .mkdir(this.directory, { recursive: true })
+        .then(() => undefined)
+        .catch((e) => {
+          // Tried again with the next batch
+          this.createDirectory = null;
+          throw e;
+        });
+    }
+    return this.createDirectory;
+  }
+}
@@ -0,0 +1,296 @@
+import { ConfigCondition, ConfigSpec } from './ConfigSpec';
+import { parseDate, versionCompare } from './utils/EvaluatorUtils';
+
+const MAX_REGEX_INPUT_LENGTH = 1000;
+
+type ValueTest = (value: unknown) => boolean;
+
+/**
+ * The parts of a condition that do not depend on the user, resolved once per sync.
+ * `test` compares a user's value against the condition's targetValue; it is null for
+ * operators that must be evaluated at check time (ID lists, custom operators).
+ */
+export type CompiledCondition = {
+  type: string;
+  operator: string | null;
+  test: ValueTest | null;
+};
+
+// Kept beside the specs rather than on them so ConfigSpec stays plain data
+const compiledConditions: WeakMap<ConfigCondition, CompiledCondition> =
+  new WeakMap();
+
+export function compileSpec(spec: ConfigSpec): ConfigSpec {
+  spec.rules.forEach((rule) => {
+    rule.conditions.forEach((condition) => {
+      compileCondition(condition);
+    });
+  });
+  return spec;
+}
+
+export function getCompiledCondition(
+  condition: ConfigCondition,
+): CompiledCondition | null {
+  return compiledConditions.get(condition) ?? null;
+}
+
+export function clearCompiledCondition(condition: ConfigCondition): void {
+  compiledConditions.delete(condition);
+}
+
+export function compileCondition(
+  condition: ConfigCondition,
+): CompiledCondition | null {
+  if (typeof condition.type !== 'string') {
+    return null;
+  }
+  const operator =
+    typeof condition.operator === 'string'
+      ? condition.operator.toLowerCase()
+      : null;
+  let test: ValueTest | null = null;
+  try {
+    test = compileOperator(operator, condition.targetValue);
+  } catch (e) {
+    test = null;
+  }
+  const compiled = { type: condition.type.toLowerCase(), operator, test };
+  compiledConditions.set(condition, compiled);
+  return compiled;
+}
+
+function compileOperator(operator: string | null, target: unknown) {
+  switch (operator) {
+    // numerical
+    case 'gt':
+      return compileNumberCompare(target, (a, b) => a > b);
+    case 'gte':
+      return compileNumberCompare(target, (a, b) => a >= b);
+    case 'lt':
+      return compileNumberCompare(target, (a, b) => a < b);
+    case 'lte':
+      return compileNumberCompare(target, (a, b) => a <= b);
+
+    // version
+    case 'version_gt':
+      return compileVersionCompare(target, (result) => result > 0);
+    case 'version_gte':
+      return compileVersionCompare(target, (result) => result >= 0);
+    case 'version_lt':
+      return compileVersionCompare(target, (result) => result < 0);
+    case 'version_lte':
+      return compileVersionCompare(target, (result) => result <= 0);
+    case 'version_eq':
+      return compileVersionCompare(target, (result) => result === 0);
+    case 'version_neq':
+      return compileVersionCompare(target, (result) => result !== 0);
+
+    // array
+    case 'any':
+      return compileStringLookup(target, true, false);
+    case 'none':
+      return compileStringLookup(target, true, true);
+    case 'any_case_sensitive':
+      return compileStringLookup(target, false, false);
+    case 'none_case_sensitive':
+      return compileStringLookup(target, false, true);
+
+    // string
+    case 'str_starts_with_any':
+      return compileStringMatch(target, false, (a, b) => a.startsWith(b));
+    case 'str_ends_with_any':
+      return compileStringMatch(target, false, (a, b) => a.endsWith(b));
+    case 'str_contains_any':
+      return compileStringMatch(target, false, (a, b) => a.includes(b));
+    case 'str_contains_none':
+      return compileStringMatch(target, true, (a, b) => a.includes(b));
+    case 'str_matches':
+      return compileRegex(target);
+
+    // strictly equals
+    case 'eq':
+      return (value: unknown) => value == target;
+    case 'neq':
+      return (value: unknown) => value != target;
+
+    // dates
+    case 'before':
+      return compileDateCompare(target, false, (a, b) => a < b);
+    case 'after':
+      return compileDateCompare(target, false, (a, b) => a > b);
+    case 'on':
+      return compileDateCompare(target, true, (a, b) => a === b);
+
+    case 'array_contains_any':
+      return compileArrayContainsAny(target, false);
+    case 'array_contains_none':
+      return compileArrayContainsAny(target, true);
+    case 'array_contains_all':
+      return compileArrayContainsAll(target, false);
+    case 'not_array_contains_all':
+      return compileArrayContainsAll(target, true);
+
+    default:
+      return null;
+  }
+}
+
+function never() {
+  return false;
+}
+
+function compileNumberCompare(
+  target: unknown,
+  fn: (a: number, b: number) => boolean,
+): ValueTest {
+  const targetNumber = Number(target);
+  if (target == null || isNaN(targetNumber)) {
+    return never;
+  }
+  return (value: unknown) => {
+    if (value == null) {
+      return false;
+    }
+    const valueNumber = Number(value);
+    return !isNaN(valueNumber) && fn(valueNumber, targetNumber);
+  };
+}
+
+function compileVersionCompare(
+  target: unknown,
+  fn: (result: number) => boolean,
+): ValueTest {
+  if (typeof target !== 'string') {
+    return never;
+  }
+  return (value: unknown) => {
+    const comparison = versionCompare(value as string, target);
+    return comparison != null && fn(comparison);
+  };
+}
+
+function compileStringLookup(
+  target: unknown,
+  ignoreCase: boolean,
+  negate: boolean,
+): ValueTest {
+  if (!Array.isArray(target)) {
+    return () => negate;
+  }
+  const normalize = (input: unknown) =>
+    ignoreCase ? String(input).toLowerCase() : String(input);
+  const lookup = new Set<string>();
+  target.forEach((item) => {
+    if (item != null) {
+      lookup.add(normalize(item));
+    }
+  });
+  return (value: unknown) => {
+    const found = value != null && lookup.has(normalize(value));
+    return negate ? !found : found;
+  };
+}
+
+function compileStringMatch(
+  target: unknown,
+  negate: boolean,
+  fn: (value: string, target: string) => boolean,
+): ValueTest {
+  if (!Array.isArray(target)) {
+    return () => negate;
+  }
+  const targets = target
+    .filter((item) => item != null)
+    .map((item) => String(item).toLowerCase());
+  return (value: unknown) => {
+    let found = false;
+    if (value != null) {
+      const lowered = String(value).toLowerCase();
+      found = targets.some((item) => fn(lowered, item));
+    }
+    return negate ? !found : found;
+  };
+}
+
+function compileRegex(target: unknown): ValueTest {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(target as string);
+  } catch (e) {
+    return never;
+  }
+  return (value: unknown) => {
+    const str = String(value);
+    return str.length < MAX_REGEX_INPUT_LENGTH && regex.test(str);
+  };
+}
+
+function compileDateCompare(
+  target: unknown,
+  byDay: boolean,
+  fn: (value: number, target: number) => boolean,
+): ValueTest {
+  const targetDate = target == null ? null : parseDate(target);
+  if (targetDate == null) {
+    return never;
+  }
+  if (byDay) {
+    targetDate.setHours(0, 0, 0, 0);
+  }
+  const targetTime = targetDate.getTime();
+  return (value: unknown) => {
+    if (value == null) {
+      return false;
+    }
+    try {
+      const date = parseDate(value);
+      if (date == null) {
+        return false;
+      }
+      if (byDay) {
+        date.setHours(0, 0, 0, 0);
+      }
+      return fn(date.getTime(), targetTime);
+    } catch (e) {
+      return false;
+    }
+  };
+}
+
+// Set membership is symmetric, so checking each value against every accepted
+// spelling of the targets matches the per-call value Set the interpreter builds.
+function compileArrayContainsAny(target: unknown, negate: boolean): ValueTest {
+  if (!Array.isArray(target)) {
+    return never;
+  }
+  const accepted = new Set<unknown>();
+  target.forEach((item) => {
+    accepted.add(item);
+    accepted.add(parseInt(item as string));
+  });
+  return (value: unknown) => {
+    if (!Array.isArray(value)) {
+      return false;
+    }
+    const found = value.some((item) => accepted.has(item));
+    return negate ? !found : found;
+  };
+}
+
+function compileArrayContainsAll(target: unknown, negate: boolean): ValueTest {
+  if (!Array.isArray(target)) {
+    return never;
+  }
+  const spellings = target.map((item) => [item, parseInt(item as string)]);
+  return (value: unknown) => {
+    if (!Array.isArray(value)) {
+      return false;
+    }
+    const valueSet = new Set(value);
+    const hasAll = spellings.every(
+      ([item, parsed]) => valueSet.has(item) || valueSet.has(parsed),
+    );
+    return negate ? !hasAll : hasAll;
+  };
+}
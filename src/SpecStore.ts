@@ -1,23 +1,39 @@
+import * as fs from 'fs';
 import { ConfigSpec } from './ConfigSpec';
 import Diagnostics, {
   ActionType,
   ContextType,
   KeyType,
+  MarkerMetadata,
   MAX_SAMPLING_RATE,
   StepType,
 } from './Diagnostics';
-import { StatsigLocalModeNetworkError } from './Errors';
+import {
+  StatsigLocalModeNetworkError,
+  StatsigRequestTimeoutError,
+} from './Errors';
 import { EvaluationReason } from './EvaluationReason';
 import { DataAdapterKey, IDataAdapter } from './interfaces/IDataAdapter';
 import OutputLogger from './OutputLogger';
+import { compileSpec } from './SpecCompiler';
+import { diffSpecs, hasSpecChanges, SpecsChangedListener } from './SpecsDiff';
+import SpecsSharing, { SharedIDList } from './SpecsSharing';
+import SpecsStream from './SpecsStream';
 import {
   ExplicitStatsigOptions,
+  IDListFile,
   InitStrategy,
   LoggerInterface,
 } from './StatsigOptions';
+import CompactIDSet from './utils/CompactIDSet';
 import { poll } from './utils/core';
-import IDListUtil, { IDList } from './utils/IDListUtil';
-import safeFetch from './utils/safeFetch';
+import { watchFile } from './utils/fileWatch';
+import { hashUnitIDForIDList, sha256HashBase64 } from './utils/Hashing';
+import IDListUtil, {
+  IDList,
+  IDListChanges,
+  IDListStats,
+} from './utils/IDListUtil';
 import StatsigFetcher from './utils/StatsigFetcher';
 const { getStatsigMetadata } = require('./utils/core');
 
@@ -43,6 +59,11 @@ const DEFAULT_API_FOR_DOWNLOAD_CONFIG_SPECS = 'https://api.statsigcdn.com/v1';
 
 export type SDKConstants = DiagnosticsSamplingRate;
 
+type SpecsSnapshot = {
+  time: number;
+  specs: Record<string, unknown>;
+};
+
 export default class SpecStore {
   private initReason: EvaluationReason;
 
@@ -75,6 +96,23 @@ export default class SpecStore {
   };
   private outputLogger = OutputLogger.getLogger();
   private sdkKey: string;
+  private specsChangedListeners: SpecsChangedListener[] = [];
+  private specsFilePath: string | null;
+  private stopWatchingSpecsFile: (() => void) | null = null;
+  private idListFiles: Record<string, IDListFile> | null;
+  private stopWatchingIdListFiles: (() => void)[] = [];
+  private idListFileReads: Record<string, Promise<void>> = {};
+  private downloadConfigSpecsTimeoutMs: number;
+  private getIdListsTimeoutMs: number;
+  private idListDownloadTimeoutMs: number;
+  private specsStream: SpecsStream | null = null;
+  private configSpecsETag: string | null = null;
+  private lastConfigSpecsHash: string | null = null;
+  private specsHistory: SpecsSnapshot[] = [];
+  private specsHistorySize: number;
+  private pinned = false;
+  private specsSharing: SpecsSharing | null = null;
+  private idListSyncTimes: Record<string, number> = {};
 
   public constructor(
     sdkKey: string,
@@ -108,10 +146,91 @@ export default class SpecStore {
     this.bootstrapValues = options.bootstrapValues;
     this.initStrategyForIDLists = options.initStrategyForIDLists;
     this.sdkKey = sdkKey;
+    this.specsFilePath = options.specsFilePath;
+    this.idListFiles = options.idListFiles;
+    this.downloadConfigSpecsTimeoutMs = options.downloadConfigSpecsTimeoutMs;
+    this.getIdListsTimeoutMs = options.getIdListsTimeoutMs;
+    this.idListDownloadTimeoutMs = options.idListDownloadTimeoutMs;
+    this.specsHistorySize = options.specsHistorySize;
+    if (
+      options.specsStreaming != null &&
+      !options.localMode &&
+      typeof AbortController !== 'function'
+    ) {
+      this.outputLogger.warn(
+        'statsigSDK> Config spec streaming needs AbortController, polling instead.',
+      );
+    } else if (options.specsStreaming != null && !options.localMode) {
+      this.specsStream = new SpecsStream(
+        sdkKey,
+        fetcher,
+        options.specsStreaming,
+        {
+          onSpecs: (specsString) => this._processStreamedSpecs(specsString),
+          onConnected: (status, isReconnect) =>
+            this._onStreamConnected(status, isReconnect),
+          onDisconnected: (reason, reconnectDelayMs) =>
+            this._onStreamDisconnected(reason, reconnectDelayMs),
+        },
+      );
+    }
+    if (options.specsSharing != null && !options.localMode) {
+      this.specsSharing = new SpecsSharing(options.specsSharing, {
+        onSpecs: (specsString, isRollback) =>
+          this._processSharedSpecs(specsString, isRollback),
+        onIDList: (idList) => this._processSharedIDList(idList),
+        onIDListNames: (names) => this._processSharedIDListNames(names),
+        onLeaderLost: () => this._onLeaderLost(),
+        onLeaderRestored: () => this._onLeaderRestored(),
+        getIDLists: () => this.store.idLists,
+      });
+    }
+  }
+
+  public addSpecsChangedListener(listener: SpecsChangedListener): () => void {
+    this.specsChangedListeners.push(listener);
+    return () => {
+      this.specsChangedListeners = this.specsChangedListeners.filter(
+        (existing) => existing !== listener,
+      );
+    };
+  }
+
+  public getInitReason(): EvaluationReason {
+    return this.pinned ? 'Pinned' : this.initReason;
+  }
+
+  // Times of the kept snapshots, newest first
+  public getSpecsSnapshotTimes(): number[] {
+    return this.specsHistory.map((snapshot) => snapshot.time).reverse();
+  }
+
+  // Applies the newest snapshot at or before time and pins it
+  public rollbackSpecs(time: number): boolean {
+    const snapshot = this.specsHistory
+      .filter((candidate) => candidate.time <= time)
+      .pop();
+    if (snapshot == null || !this._process(snapshot.specs, true)) {
+      return false;
+    }
+    this.pinned = true;
+    return true;
   }
 
-  public getInitReason() {
-    return this.initReason;
+  // Syncs are ignored until unpinned
+  public pinSpecs(): void {
+    this.pinned = true;
+  }
+
+  public async unpinSpecs(): Promise<void> {
+    if (!this.pinned) {
+      return;
+    }
+    this.pinned = false;
+    // The latest payload may be the one that was rolled back
+    this.configSpecsETag = null;
+    this.lastConfigSpecsHash = null;
+    await this.syncValues();
   }
 
   public getInitialUpdateTime() {
@@ -142,6 +261,20 @@ export default class SpecStore {
     return this.store.idLists[listName] ?? null;
   }
 
+  public getIDListStats(): IDListStats[] {
+    return Object.keys(this.store.idLists).map((name) => {
+      const list = this.store.idLists[name];
+      return {
+        name,
+        fileID: list.fileID,
+        creationTime: list.creationTime,
+        readBytes: list.readBytes,
+        size: list.ids.size(),
+        lastSyncTime: this.idListSyncTimes[name] ?? 0,
+      };
+    });
+  }
+
   public getAllGates(): Record<string, ConfigSpec> {
     return this.store.gates;
   }
@@ -156,6 +289,17 @@ export default class SpecStore {
 
   public async init(): Promise<void> {
     var specsJSON = null;
+    if (this.specsSharing?.isLeader() === false) {
+      if (await this.specsSharing.waitForLeader()) {
+        await this.dataAdapter?.initialize();
+        this.setInitialUpdateTime();
+        this.initialized = true;
+        return;
+      }
+      this.outputLogger.warn(
+        'statsigSDK::initialize> No config specs from the leader, syncing on this instance instead.',
+      );
+    }
     if (this.bootstrapValues != null) {
       if (this.dataAdapter != null) {
         this.outputLogger.error(
@@ -193,7 +337,7 @@ export default class SpecStore {
         this.syncValues();
       }
     } else {
-      if (adapter) {
+      if (adapter && this.specsFilePath == null) {
         await this._fetchConfigSpecsFromAdapter();
       }
       if (this.lastUpdateTime === 0) {
@@ -210,13 +354,16 @@ export default class SpecStore {
       await this._initIDLists();
     }
 
+    this.specsSharing?.start();
     this.pollForUpdates();
     this.initialized = true;
   }
 
   private async _initIDLists(): Promise<void> {
     const adapter = this.dataAdapter;
-    if (adapter) {
+    if (this.idListFiles != null) {
+      await this.syncIdListsFromFiles();
+    } else if (adapter) {
       const success = await this.syncIdListsFromDataAdapter();
       if (!success) {
         await this.syncIdListsFromNetwork();
@@ -227,20 +374,28 @@ export default class SpecStore {
   }
 
   public resetSyncTimerIfExited(): Error | null {
+    if (this.specsSharing?.isFollowing()) {
+      return null;
+    }
     const syncTimerInactive =
+      this.specsStream?.isConnected() !== true &&
       this.syncTimerLastActiveTime <
-      Date.now() - Math.max(SYNC_OUTDATED_MAX, this.syncInterval);
+        Date.now() - Math.max(SYNC_OUTDATED_MAX, this.syncInterval);
     const idListsSyncTimerInactive =
       this.idListsSyncTimerLastActiveTime <
       Date.now() - Math.max(SYNC_OUTDATED_MAX, this.idListSyncInterval);
+    const rulesetsSyncDisabled =
+      this.disableRulesetsSync || this.specsFilePath != null;
+    const idListsSyncDisabled =
+      this.disableIdListsSync || this.idListFiles != null;
     if (
-      (!syncTimerInactive || this.disableRulesetsSync) &&
-      (!idListsSyncTimerInactive || this.disableIdListsSync)
+      (!syncTimerInactive || rulesetsSyncDisabled) &&
+      (!idListsSyncTimerInactive || idListsSyncDisabled)
     ) {
       return null;
     }
     let message = '';
-    if (syncTimerInactive && !this.disableRulesetsSync) {
+    if (syncTimerInactive && !rulesetsSyncDisabled) {
       this.clearSyncTimer();
       this.syncValues();
       message = message.concat(
@@ -249,7 +404,7 @@ export default class SpecStore {
         }, now: ${Date.now()}`,
       );
     }
-    if (idListsSyncTimerInactive && !this.disableIdListsSync) {
+    if (idListsSyncTimerInactive && !idListsSyncDisabled) {
       this.clearIdListsSyncTimer();
       this.syncIdLists();
       message = message.concat(
@@ -276,6 +431,14 @@ export default class SpecStore {
     return isNaN(status) ? undefined : status;
   }
 
+  // Timeouts get their own marker value, apart from statuses and other failures
+  private getNetworkMarkerValue(e: unknown): number | string | false {
+    if (e instanceof StatsigRequestTimeoutError) {
+      return 'timeout';
+    }
+    return this.getResponseCodeFromError(e) ?? false;
+  }
+
   private async _fetchConfigSpecsFromServer(): Promise<void> {
     this.addDiagnosticsMarker('download_config_specs', 'start', {
       step: 'network_request',
@@ -291,16 +454,19 @@ export default class SpecStore {
         (this.apiForDownloadConfigSpecs ??
           this.api ??
           DEFAULT_API_FOR_DOWNLOAD_CONFIG_SPECS) + path;
-      response = await this.fetcher.get(url);
+      response = await this.fetcher.get(url, 0, 1000, false, {
+        timeoutMs: this.downloadConfigSpecsTimeoutMs,
+        headers:
+          this.configSpecsETag != null
+            ? { 'If-None-Match': this.configSpecsETag }
+            : {},
+      });
     } catch (e) {
       error = e as Error;
     } finally {
-      const status = response
-        ? response.status
-        : this.getResponseCodeFromError(error);
       this.addDiagnosticsMarker('download_config_specs', 'end', {
         step: 'network_request',
-        value: status ?? false,
+        value: response ? response.status : this.getNetworkMarkerValue(error),
       });
       if (error) {
         throw error;
@@ -309,11 +475,19 @@ export default class SpecStore {
         return;
       }
     }
-
+    if (response.status === 304) {
+      return;
+    }
+    const etag = response.headers?.get('etag');
+    const specsString = await response.text();
+    // An identical payload would only repeat the work of the last sync
+    const specsHash = sha256HashBase64(specsString);
+    if (specsHash === this.lastConfigSpecsHash) {
+      return;
+    }
     this.addDiagnosticsMarker('download_config_specs', 'start', {
       step: 'process',
     });
-    const specsString = await response.text();
     const processResult = this._process(JSON.parse(specsString));
     if (!processResult) {
       this.addDiagnosticsMarker('download_config_specs', 'end', {
@@ -322,7 +496,21 @@ export default class SpecStore {
       });
       return;
     }
+    // Only applied specs are skipped on the next sync, a payload that failed
+    // to parse or process is downloaded again
+    if (etag) {
+      this.configSpecsETag = etag;
+    }
+    this.lastConfigSpecsHash = specsHash;
     this.initReason = 'Network';
+    this._onSpecsUpdatedFromNetwork(specsString);
+    this.addDiagnosticsMarker('download_config_specs', 'end', {
+      step: 'process',
+      value: this.initReason === 'Network',
+    });
+  }
+
+  private _onSpecsUpdatedFromNetwork(specsString: string): void {
     if (
       this.rulesUpdatedCallback != null &&
       typeof this.rulesUpdatedCallback === 'function'
@@ -330,9 +518,146 @@ export default class SpecStore {
       this.rulesUpdatedCallback(specsString, this.lastUpdateTime);
     }
     this._saveConfigSpecsToAdapter(specsString);
-    this.addDiagnosticsMarker('download_config_specs', 'end', {
-      step: 'process',
-      value: this.initReason === 'Network',
+  }
+
+  private _processStreamedSpecs(specsString: string): void {
+    if (this.pinned) {
+      return;
+    }
+    try {
+      if (!this._process(JSON.parse(specsString))) {
+        return;
+      }
+    } catch (e) {
+      this.outputLogger.warn(
+        'statsigSDK::sync> Failed to process streamed config specs',
+        e as Error,
+      );
+      return;
+    }
+    this.initReason = 'Network';
+    this._onSpecsUpdatedFromNetwork(specsString);
+  }
+
+  private _onStreamConnected(status: number, isReconnect: boolean): void {
+    this.clearSyncTimer();
+    this.logStreamMarker(status);
+    if (isReconnect) {
+      // Catches up on updates pushed while the stream was down
+      this.syncValues();
+    }
+  }
+
+  private _onStreamDisconnected(reason: string, reconnectDelayMs: number) {
+    this.logStreamMarker(false, { reason, reconnectDelayMs });
+    if (this.syncTimer == null) {
+      this.syncTimerLastActiveTime = Date.now();
+      this.startSyncTimer();
+    }
+  }
+
+  private _processSharedSpecs(specsString: string, isRollback: boolean) {
+    if (this.pinned) {
+      return;
+    }
+    try {
+      if (!this._process(JSON.parse(specsString), isRollback)) {
+        return;
+      }
+    } catch (e) {
+      this.outputLogger.warn(
+        'statsigSDK::sync> Failed to process config specs from the leader',
+        e as Error,
+      );
+      return;
+    }
+    this.initReason = 'Network';
+    if (
+      this.rulesUpdatedCallback != null &&
+      typeof this.rulesUpdatedCallback === 'function'
+    ) {
+      this.rulesUpdatedCallback(specsString, this.lastUpdateTime);
+    }
+  }
+
+  private _processSharedIDList(idList: SharedIDList): void {
+    const { name, url, fileID, creationTime, readBytes, reset, data } = idList;
+    if (reset || this.store.idLists[name] == null) {
+      this.store.idLists[name] = {
+        ids: new CompactIDSet(),
+        readBytes: 0,
+        url,
+        fileID,
+        creationTime,
+      };
+    }
+    try {
+      if (data.length > 0) {
+        IDListUtil.updateIdList(this.store.idLists, name, data);
+      }
+    } catch (e) {
+      this.outputLogger.warn(e as Error);
+      return;
+    }
+    // Advanced only once the data applies, so the list never claims bytes it
+    // does not hold
+    this.store.idLists[name].readBytes = readBytes;
+    this.markIDListsSynced([name]);
+  }
+
+  // The leader shares the names after each of its syncs. Lists are only
+  // marked synced when their contents arrive
+  private _processSharedIDListNames(names: string[]): void {
+    for (const name of Object.keys(this.store.idLists)) {
+      if (names.indexOf(name) === -1) {
+        delete this.store.idLists[name];
+      }
+    }
+  }
+
+  private _onLeaderLost(): void {
+    this.outputLogger.warn(
+      'statsigSDK::sync> Lost the leader, syncing on this instance until it is back.',
+    );
+    this.logSharingMarker(false);
+    this.syncTimerLastActiveTime = Date.now();
+    this.idListsSyncTimerLastActiveTime = Date.now();
+    this.syncValues();
+    this.syncIdLists();
+    this.pollForUpdates();
+  }
+
+  private _onLeaderRestored(): void {
+    this.logSharingMarker(true);
+    this.specsStream?.stop();
+    this.clearSyncTimer();
+    this.clearIdListsSyncTimer();
+    this.stopWatchingSpecsFile?.();
+    this.stopWatchingSpecsFile = null;
+    this.clearIdListFileWatchers();
+  }
+
+  private logSharingMarker(value: boolean): void {
+    this.diagnostics.logMarker('config_sync', {
+      key: 'specs_sharing',
+      action: 'end',
+      step: null,
+      value,
+      timestamp: Date.now(),
+    });
+  }
+
+  private logStreamMarker(
+    value: number | boolean,
+    metadata?: MarkerMetadata,
+  ): void {
+    this.diagnostics.logMarker('config_sync', {
+      key: 'config_spec_stream',
+      action: 'end',
+      step: 'network_request',
+      value,
+      timestamp: Date.now(),
+      metadata,
     });
   }
 
@@ -352,6 +677,29 @@ export default class SpecStore {
     }
   }
 
+  private async _fetchConfigSpecsFromFile(filePath: string): Promise<void> {
+    let specsString: string;
+    try {
+      specsString = await fs.promises.readFile(filePath, 'utf8');
+      if (!this._process(JSON.parse(specsString))) {
+        return;
+      }
+    } catch (e) {
+      this.outputLogger.error(
+        `statsigSDK::sync> Failed to load config specs from ${filePath}`,
+        e as Error,
+      );
+      return;
+    }
+    this.initReason = 'File';
+    if (
+      this.rulesUpdatedCallback != null &&
+      typeof this.rulesUpdatedCallback === 'function'
+    ) {
+      this.rulesUpdatedCallback(specsString, this.lastUpdateTime);
+    }
+  }
+
   private async _saveConfigSpecsToAdapter(specString: string): Promise<void> {
     if (!this.dataAdapter) {
       return;
@@ -364,14 +712,40 @@ export default class SpecStore {
   }
 
   private pollForUpdates() {
-    if (this.syncTimer == null && !this.disableRulesetsSync) {
-      this.syncTimer = poll(async () => {
-        this.syncTimerLastActiveTime = Date.now();
-        await this.syncValues();
-      }, this.syncInterval);
+    // Updates come from the leader
+    if (this.specsSharing?.isFollowing()) {
+      return;
+    }
+    // A specs file is watched for changes instead of polling the network
+    if (this.specsFilePath != null) {
+      if (this.stopWatchingSpecsFile == null) {
+        this.stopWatchingSpecsFile = watchFile(this.specsFilePath, () =>
+          this.syncValues(),
+        );
+      }
+    } else if (this.specsStream != null && !this.disableRulesetsSync) {
+      // Updates are pushed, polling only runs while the stream is down
+      this.specsStream.start();
+      if (!this.specsStream.isConnected() && this.syncTimer == null) {
+        this.startSyncTimer();
+      }
+    } else if (this.syncTimer == null && !this.disableRulesetsSync) {
+      this.startSyncTimer();
     }
 
-    if (this.idListsSyncTimer == null && !this.disableIdListsSync) {
+    // So are ID list files, their appends are read incrementally
+    if (this.idListFiles != null) {
+      if (
+        this.stopWatchingIdListFiles.length === 0 &&
+        !this.disableIdListsSync
+      ) {
+        for (const [name, file] of Object.entries(this.idListFiles)) {
+          this.stopWatchingIdListFiles.push(
+            watchFile(file.filePath, () => this.syncIdListFromFile(name)),
+          );
+        }
+      }
+    } else if (this.idListsSyncTimer == null && !this.disableIdListsSync) {
       this.idListsSyncTimer = poll(async () => {
         this.idListsSyncTimerLastActiveTime = Date.now();
         await this.syncIdLists();
@@ -379,6 +753,13 @@ export default class SpecStore {
     }
   }
 
+  private startSyncTimer(): void {
+    this.syncTimer = poll(async () => {
+      this.syncTimerLastActiveTime = Date.now();
+      await this.syncValues();
+    }, this.syncInterval);
+  }
+
   private addDiagnosticsMarker(
     key: KeyType,
     action: ActionType,
@@ -416,6 +797,14 @@ export default class SpecStore {
   }
 
   public async syncValues(isColdStart: boolean = false): Promise<void> {
+    if (this.pinned) {
+      return;
+    }
+    if (this.specsFilePath != null) {
+      await this._fetchConfigSpecsFromFile(this.specsFilePath);
+      return;
+    }
+
     const adapter = this.dataAdapter;
     const shouldSyncFromAdapter =
       adapter?.supportsPollingUpdatesFor?.(DataAdapterKey.Rulesets) === true;
@@ -461,7 +850,9 @@ export default class SpecStore {
     const adapter = this.dataAdapter;
     const shouldSyncFromAdapter =
       adapter?.supportsPollingUpdatesFor?.(DataAdapterKey.IDLists) === true;
-    if (shouldSyncFromAdapter) {
+    if (this.idListFiles != null) {
+      await this.syncIdListsFromFiles();
+    } else if (shouldSyncFromAdapter) {
       await this.syncIdListsFromDataAdapter();
     } else {
       await this.syncIdListsFromNetwork();
@@ -497,12 +888,16 @@ export default class SpecStore {
   }
 
   // returns a boolean indicating whether specsJSON has was successfully parsed
-  private _process(specsJSON: Record<string, unknown>): boolean {
+  private _process(
+    specsJSON: Record<string, unknown>,
+    isRollback = false,
+  ): boolean {
     if (!specsJSON?.has_updates) {
       return false;
     }
 
     if (
+      !isRollback &&
       specsJSON?.time !== undefined &&
       Number(specsJSON.time) < this.lastUpdateTime
     ) {
@@ -530,7 +925,7 @@ export default class SpecStore {
 
     for (const gateJSON of gateArray) {
       try {
-        const gate = new ConfigSpec(gateJSON);
+        const gate = compileSpec(new ConfigSpec(gateJSON));
         updatedGates[gate.name] = gate;
       } catch (e) {
         return false;
@@ -539,7 +934,7 @@ export default class SpecStore {
 
     for (const configJSON of configArray) {
       try {
-        const config = new ConfigSpec(configJSON);
+        const config = compileSpec(new ConfigSpec(configJSON));
         updatedConfigs[config.name] = config;
       } catch (e) {
         return false;
@@ -548,7 +943,7 @@ export default class SpecStore {
 
     for (const layerJSON of layersArray) {
       try {
-        const config = new ConfigSpec(layerJSON);
+        const config = compileSpec(new ConfigSpec(layerJSON));
         updatedLayers[config.name] = config;
       } catch (e) {
         return false;
@@ -558,14 +953,75 @@ export default class SpecStore {
     const updatedExpToLayer: Record<string, string> =
       this._reverseLayerExperimentMapping(layerToExperimentMap);
 
+    const previous = {
+      gates: this.store.gates,
+      configs: this.store.configs,
+      layers: this.store.layers,
+      time: this.lastUpdateTime,
+    };
+
     this.store.gates = updatedGates;
     this.store.configs = updatedConfigs;
     this.store.layers = updatedLayers;
     this.store.experimentToLayer = updatedExpToLayer;
     this.lastUpdateTime = (specsJSON.time as number) ?? this.lastUpdateTime;
+    if (!isRollback) {
+      this.addSpecsSnapshot(specsJSON);
+    }
+
+    this.notifySpecsChanged(previous);
+    if (this.specsSharing?.isLeader()) {
+      this.specsSharing.shareSpecs(JSON.stringify(specsJSON), isRollback);
+    }
     return true;
   }
 
+  private addSpecsSnapshot(specsJSON: Record<string, unknown>) {
+    if (this.specsHistorySize <= 0) {
+      return;
+    }
+    const latest = this.specsHistory[this.specsHistory.length - 1];
+    if (latest != null && latest.time === this.lastUpdateTime) {
+      latest.specs = specsJSON;
+      return;
+    }
+    this.specsHistory.push({ time: this.lastUpdateTime, specs: specsJSON });
+    if (this.specsHistory.length > this.specsHistorySize) {
+      this.specsHistory.shift();
+    }
+  }
+
+  // The diff is only computed when someone is listening
+  private notifySpecsChanged(previous: {
+    gates: Record<string, ConfigSpec>;
+    configs: Record<string, ConfigSpec>;
+    layers: Record<string, ConfigSpec>;
+    time: number;
+  }) {
+    if (this.specsChangedListeners.length === 0) {
+      return;
+    }
+    const event = diffSpecs(previous, {
+      gates: this.store.gates,
+      configs: this.store.configs,
+      layers: this.store.layers,
+      time: this.lastUpdateTime,
+    });
+    if (!hasSpecChanges(event)) {
+      return;
+    }
+    this.specsChangedListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (e) {
+        this.outputLogger.error(
+          'statsigSDK::onSpecsChanged> A specs changed listener threw an error',
+          e as Error,
+        );
+      }
+    });
+  }
+
   /**
    * Returns a reverse mapping of layers to experiment (or vice versa)
    */
@@ -617,7 +1073,7 @@ export default class SpecStore {
             }
 
             this.store.idLists[name] = {
-              ids: {},
+              ids: new CompactIDSet(),
               readBytes: 0,
               url: 'bootstrap',
               fileID: 'bootstrap',
@@ -631,6 +1087,8 @@ export default class SpecStore {
       }
 
       await Promise.all(tasks);
+      this.markIDListsSynced(lookup);
+      this.specsSharing?.shareIDLists(this.store.idLists);
       return true;
     } catch {
       return false;
@@ -648,6 +1106,10 @@ export default class SpecStore {
         {
           statsigMetadata: getStatsigMetadata(),
         },
+        0,
+        1000,
+        false,
+        { timeoutMs: this.getIdListsTimeoutMs },
       );
 
       this.addDiagnosticsMarker('get_id_list_sources', 'end', {
@@ -655,10 +1117,9 @@ export default class SpecStore {
         value: response.status,
       });
     } catch (e) {
-      const status = this.getResponseCodeFromError(e);
       this.addDiagnosticsMarker('get_id_list_sources', 'end', {
         step: 'network_request',
-        value: status ?? false,
+        value: this.getNetworkMarkerValue(e),
       });
       this.outputLogger.warn(e as Error);
       return;
@@ -677,6 +1138,8 @@ export default class SpecStore {
         return;
       }
       let promises = [];
+      const changes: IDListChanges = {};
+      const upToDate: string[] = [];
 
       for (const [name, item] of Object.entries(lookup)) {
         const url = item.url;
@@ -700,7 +1163,7 @@ export default class SpecStore {
           newFile // when fileID changes, we reset the whole list
         ) {
           this.store.idLists[name] = {
-            ids: {},
+            ids: new CompactIDSet(),
             readBytes: 0,
             url,
             fileID,
@@ -710,40 +1173,139 @@ export default class SpecStore {
         const fileSize = item.size ?? 0;
         const readSize = this.store.idLists[name].readBytes ?? 0;
         if (fileSize <= readSize) {
+          upToDate.push(name);
           continue;
         }
-        promises.push(this.genFetchIDList(name, url, readSize));
+        promises.push(this.genFetchIDList(name, url, readSize, changes));
       }
 
       IDListUtil.removeOldIdLists(this.store.idLists, lookup);
 
       await Promise.allSettled(promises);
+      this.markIDListsSynced(upToDate.concat(Object.keys(changes)));
+      this.specsSharing?.shareIDListNames(Object.keys(this.store.idLists));
 
       if (this.dataAdapter) {
         await IDListUtil.saveToDataAdapter(
           this.dataAdapter,
           this.store.idLists,
+          changes,
         );
       }
     } catch (e) {}
   }
 
+  private async syncIdListsFromFiles(): Promise<void> {
+    const idListFiles = this.idListFiles ?? {};
+    await Promise.all(
+      Object.keys(idListFiles).map((name) => this.syncIdListFromFile(name)),
+    );
+    this.specsSharing?.shareIDListNames(Object.keys(this.store.idLists));
+  }
+
+  // Reads of the same file are queued so appends are applied in order
+  private syncIdListFromFile(name: string): Promise<void> {
+    const previous = this.idListFileReads[name] ?? Promise.resolve();
+    const read = previous.then(() => this._readIdListFile(name));
+    this.idListFileReads[name] = read;
+    return read;
+  }
+
+  private async _readIdListFile(name: string): Promise<void> {
+    const file = this.idListFiles?.[name];
+    if (file == null) {
+      return;
+    }
+    let data: string;
+    let reset: boolean;
+    try {
+      const handle = await fs.promises.open(file.filePath, 'r');
+      try {
+        const stat = await handle.stat();
+        const fileID = String(stat.ino);
+        let list = this.store.idLists[name];
+        // A replaced or truncated file is read again from the start
+        reset =
+          list == null || list.fileID !== fileID || stat.size < list.readBytes;
+        if (reset) {
+          list = {
+            ids: new CompactIDSet(),
+            readBytes: 0,
+            url: file.filePath,
+            fileID,
+            creationTime: Math.floor(stat.birthtimeMs || stat.mtimeMs),
+          };
+        }
+        const buffer = Buffer.alloc(stat.size - list.readBytes);
+        const { bytesRead } = await handle.read(
+          buffer,
+          0,
+          buffer.length,
+          list.readBytes,
+        );
+        // A last line without a line break may still be being written, so it
+        // is left for the next change
+        const end = bytesRead > 0 ? buffer.lastIndexOf(10, bytesRead - 1) : -1;
+        data = this.parseIdListFileLines(
+          buffer.toString('utf8', 0, end + 1),
+          file.unhashedIDs === true,
+        );
+        if (reset) {
+          this.store.idLists[name] = list;
+        }
+        list.readBytes += end + 1;
+      } finally {
+        await handle.close();
+      }
+      if (data.length > 0) {
+        IDListUtil.updateIdList(this.store.idLists, name, data);
+      }
+    } catch (e) {
+      this.outputLogger.warn(
+        `statsigSDK::sync> Failed to load ID list ${name} from ${file.filePath}`,
+        e as Error,
+      );
+      return;
+    }
+    this.markIDListsSynced([name]);
+    this.shareIDList(name, data, reset);
+  }
+
+  // Drops blank lines and hashes plain unit IDs like hashUnitIDForIDList
+  private parseIdListFileLines(text: string, unhashedIDs: boolean): string {
+    return text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 1)
+      .map((line) =>
+        unhashedIDs
+          ? line.charAt(0) + hashUnitIDForIDList(line.slice(1).trim())
+          : line,
+      )
+      .join('\n');
+  }
+
   private async genFetchIDList(
     name: string,
     url: string,
     readSize: number,
+    changes: IDListChanges,
   ): Promise<void> {
     try {
       this.addDiagnosticsMarker('get_id_list', 'start', {
         step: 'network_request',
         metadata: { url: url },
       });
-      const res = await safeFetch(url, {
-        method: 'GET',
-        headers: {
-          Range: `bytes=${readSize}-`,
+      const res = await this.fetcher.fetch(
+        url,
+        {
+          method: 'GET',
+          headers: {
+            Range: `bytes=${readSize}-`,
+          },
         },
-      });
+        this.idListDownloadTimeoutMs,
+      );
       this.addDiagnosticsMarker('get_id_list', 'end', {
         step: 'network_request',
         value: res.status,
@@ -764,7 +1326,10 @@ export default class SpecStore {
         delete this.store.idLists[name];
         throw new Error('Content-Length for the id list is invalid.');
       }
-      IDListUtil.updateIdList(this.store.idLists, name, await res.text());
+      const data = await res.text();
+      IDListUtil.updateIdList(this.store.idLists, name, data);
+      changes[name] = { data, reset: readSize === 0 };
+      this.shareIDList(name, data, readSize === 0);
       this.addDiagnosticsMarker('get_id_list', 'end', {
         step: 'process',
         value: true,
@@ -772,6 +1337,14 @@ export default class SpecStore {
       });
     } catch (e) {
       this.outputLogger.warn(e as Error);
+      if (e instanceof StatsigRequestTimeoutError) {
+        this.addDiagnosticsMarker('get_id_list', 'end', {
+          step: 'network_request',
+          value: 'timeout',
+          metadata: { url: url },
+        });
+        return;
+      }
       this.addDiagnosticsMarker('get_id_list', 'end', {
         step: 'process',
         value: false,
@@ -780,9 +1353,39 @@ export default class SpecStore {
     }
   }
 
+  private markIDListsSynced(names: string[]): void {
+    const now = Date.now();
+    names.forEach((name) => {
+      if (this.store.idLists[name] != null) {
+        this.idListSyncTimes[name] = now;
+      }
+    });
+  }
+
+  private shareIDList(name: string, data: string, reset: boolean): void {
+    const list = this.store.idLists[name];
+    if (!this.specsSharing?.isLeader() || list == null) {
+      return;
+    }
+    this.specsSharing.shareIDList({
+      name,
+      url: list.url,
+      fileID: list.fileID,
+      creationTime: list.creationTime,
+      readBytes: list.readBytes,
+      reset,
+      data,
+    });
+  }
+
   public shutdown(): void {
+    this.specsSharing?.stop();
+    this.specsStream?.stop();
     this.clearSyncTimer();
     this.clearIdListsSyncTimer();
+    this.stopWatchingSpecsFile?.();
+    this.stopWatchingSpecsFile = null;
+    this.clearIdListFileWatchers();
     this.dataAdapter?.shutdown();
   }
 
@@ -793,6 +1396,11 @@ export default class SpecStore {
     }
   }
 
+  private clearIdListFileWatchers(): void {
+    this.stopWatchingIdListFiles.forEach((stop) => stop());
+    this.stopWatchingIdListFiles = [];
+  }
+
   private clearIdListsSyncTimer(): void {
     if (this.idListsSyncTimer != null) {
       clearInterval(this.idListsSyncTimer);
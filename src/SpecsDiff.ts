@@ -0,0 +1,106 @@
+import { ConfigSpec } from './ConfigSpec';
+
+export type SpecChangedField =
+  'rules' | 'defaultValue' | 'enabled' | 'isActive';
+
+export type ModifiedSpec = {
+  name: string;
+  oldVersion: number | null;
+  newVersion: number | null;
+  changedFields: SpecChangedField[];
+};
+
+export type EntityChanges = {
+  added: string[];
+  removed: string[];
+  modified: ModifiedSpec[];
+};
+
+export type SpecsChangedEvent = {
+  gates: EntityChanges;
+  configs: EntityChanges;
+  layers: EntityChanges;
+  previousTime: number;
+  time: number;
+};
+
+export type SpecsChangedListener = (event: SpecsChangedEvent) => void;
+
+type SpecsSnapshot = {
+  gates: Record<string, ConfigSpec>;
+  configs: Record<string, ConfigSpec>;
+  layers: Record<string, ConfigSpec>;
+  time: number;
+};
+
+export function diffSpecs(
+  previous: SpecsSnapshot,
+  next: SpecsSnapshot,
+): SpecsChangedEvent {
+  return {
+    gates: diffEntities(previous.gates, next.gates),
+    configs: diffEntities(previous.configs, next.configs),
+    layers: diffEntities(previous.layers, next.layers),
+    previousTime: previous.time,
+    time: next.time,
+  };
+}
+
+export function hasSpecChanges(event: SpecsChangedEvent): boolean {
+  return [event.gates, event.configs, event.layers].some(
+    (changes) =>
+      changes.added.length > 0 ||
+      changes.removed.length > 0 ||
+      changes.modified.length > 0,
+  );
+}
+
+function diffEntities(
+  previous: Record<string, ConfigSpec>,
+  next: Record<string, ConfigSpec>,
+): EntityChanges {
+  const changes: EntityChanges = { added: [], removed: [], modified: [] };
+  Object.keys(next).forEach((name) => {
+    const oldSpec = previous[name];
+    if (oldSpec === undefined) {
+      changes.added.push(name);
+      return;
+    }
+    const newSpec = next[name];
+    const changedFields = getChangedFields(oldSpec, newSpec);
+    const oldVersion = oldSpec.version ?? null;
+    const newVersion = newSpec.version ?? null;
+    if (changedFields.length > 0 || oldVersion !== newVersion) {
+      changes.modified.push({ name, oldVersion, newVersion, changedFields });
+    }
+  });
+  Object.keys(previous).forEach((name) => {
+    if (next[name] === undefined) {
+      changes.removed.push(name);
+    }
+  });
+  return changes;
+}
+
+function getChangedFields(
+  oldSpec: ConfigSpec,
+  newSpec: ConfigSpec,
+): SpecChangedField[] {
+  const fields: SpecChangedField[] = [];
+  if (JSON.stringify(oldSpec.rules) !== JSON.stringify(newSpec.rules)) {
+    fields.push('rules');
+  }
+  if (
+    JSON.stringify(oldSpec.defaultValue) !==
+    JSON.stringify(newSpec.defaultValue)
+  ) {
+    fields.push('defaultValue');
+  }
+  if (oldSpec.enabled !== newSpec.enabled) {
+    fields.push('enabled');
+  }
+  if ((oldSpec.isActive ?? null) !== (newSpec.isActive ?? null)) {
+    fields.push('isActive');
+  }
+  return fields;
+}
@@ -0,0 +1,323 @@
+import IDListUtil, { IDList } from './utils/IDListUtil';
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5 * 1000;
+const DEFAULT_LEADER_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Anything messages can be passed through: a worker_threads MessagePort,
+ * parentPort or BroadcastChannel, a child process or cluster worker,
+ * or `process` itself inside a forked worker
+ */
+export type SpecsSharingChannel = {
+  postMessage?: (message: unknown) => void;
+  send?: (message: unknown) => unknown;
+  on?: (event: 'message', listener: (message: unknown) => void) => unknown;
+  off?: (event: 'message', listener: (message: unknown) => void) => unknown;
+  addEventListener?: (
+    event: 'message',
+    listener: (event: { data: unknown }) => void,
+  ) => unknown;
+  removeEventListener?: (
+    event: 'message',
+    listener: (event: { data: unknown }) => void,
+  ) => unknown;
+};
+
+export type SpecsSharingOptions = {
+  /**
+   * The leader syncs with the network and shares what it processed.
+   * Followers skip their own syncs while the leader is alive
+   */
+  role: 'leader' | 'follower';
+  /**
+   * For the leader, one channel per follower (or a single broadcast channel).
+   * For a follower, the channel to its leader
+   */
+  channels: SpecsSharingChannel[];
+  /**
+   * How often the leader signals it is alive. Defaults to 5 seconds
+   */
+  heartbeatIntervalMs?: number;
+  /**
+   * Followers sync on their own after not hearing from the leader for this
+   * long, and go back to following once it is heard from again.
+   * Defaults to 15 seconds
+   */
+  leaderTimeoutMs?: number;
+};
+
+export type SharedIDList = {
+  name: string;
+  url: string;
+  fileID: string;
+  creationTime: number;
+  readBytes: number;
+  // The list is rebuilt from data instead of data being applied on top
+  reset: boolean;
+  data: string;
+};
+
+type SpecsSharingMessage =
+  | { statsigSpecsSharing: 'heartbeat' }
+  | { statsigSpecsSharing: 'snapshot_request' }
+  | { statsigSpecsSharing: 'specs'; specs: string; rollback: boolean }
+  | { statsigSpecsSharing: 'snapshot'; specs: string; idLists: SharedIDList[] }
+  | { statsigSpecsSharing: 'id_list'; idList: SharedIDList }
+  | { statsigSpecsSharing: 'id_list_names'; names: string[] };
+
+export type SpecsSharingHandlers = {
+  onSpecs: (specsString: string, isRollback: boolean) => void;
+  onIDList: (idList: SharedIDList) => void;
+  onIDListNames: (names: string[]) => void;
+  onLeaderLost: () => void;
+  onLeaderRestored: () => void;
+  getIDLists: () => Record<string, IDList>;
+};
+
+/**
+ * Shares processed config specs and ID list updates between SDK instances,
+ * so only the leader talks to the network. Followers ask the leader for a
+ * snapshot on start and fall back to syncing themselves when it goes quiet.
+ */
+export default class SpecsSharing {
+  private role: 'leader' | 'follower';
+  private channels: SpecsSharingChannel[];
+  private heartbeatIntervalMs: number;
+  private leaderTimeoutMs: number;
+  private handlers: SpecsSharingHandlers;
+  private unsubscribers: (() => void)[] | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastSpecs: string | null = null;
+  private lastLeaderMessageTime = 0;
+  private following = false;
+  private specsWaiter: (() => void) | null = null;
+
+  public constructor(
+    options: SpecsSharingOptions,
+    handlers: SpecsSharingHandlers,
+  ) {
+    this.role = options.role;
+    this.channels = options.channels;
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.leaderTimeoutMs = options.leaderTimeoutMs ?? DEFAULT_LEADER_TIMEOUT_MS;
+    this.handlers = handlers;
+    // Channels such as cluster IPC do not buffer messages, so the leader
+    // listens before its first sync to see followers that start with it
+    if (this.role === 'leader') {
+      this.listen();
+    }
+  }
+
+  public start(): void {
+    if (this.timer != null) {
+      return;
+    }
+    this.listen();
+    if (this.role === 'leader') {
+      this.timer = setInterval(
+        () => this.broadcast({ statsigSpecsSharing: 'heartbeat' }),
+        this.heartbeatIntervalMs,
+      );
+    } else {
+      this.timer = setInterval(
+        () => this.checkLeader(),
+        Math.min(this.heartbeatIntervalMs, this.leaderTimeoutMs),
+      );
+    }
+    this.timer.unref?.();
+  }
+
+  public stop(): void {
+    if (this.timer != null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribers?.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = null;
+    this.following = false;
+    this.specsWaiter?.();
+  }
+
+  public isLeader(): boolean {
+    return this.role === 'leader';
+  }
+
+  // Whether syncs are currently left to the leader
+  public isFollowing(): boolean {
+    return this.following;
+  }
+
+  // Asks the leader for what it has, resolving true once it arrives
+  public waitForLeader(): Promise<boolean> {
+    this.start();
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.specsWaiter = null;
+        resolve(false);
+      }, this.leaderTimeoutMs);
+      this.specsWaiter = () => {
+        clearTimeout(timeout);
+        this.specsWaiter = null;
+        resolve(this.following);
+      };
+      this.broadcast({ statsigSpecsSharing: 'snapshot_request' });
+    });
+  }
+
+  public shareSpecs(specsString: string, isRollback: boolean): void {
+    if (this.role !== 'leader') {
+      return;
+    }
+    this.lastSpecs = specsString;
+    this.broadcast({
+      statsigSpecsSharing: 'specs',
+      specs: specsString,
+      rollback: isRollback,
+    });
+  }
+
+  public shareIDList(idList: SharedIDList): void {
+    if (this.role !== 'leader') {
+      return;
+    }
+    this.broadcast({ statsigSpecsSharing: 'id_list', idList });
+  }
+
+  // Shares the lists in full, e.g. after loading them from a data adapter
+  public shareIDLists(idLists: Record<string, IDList>): void {
+    if (this.role !== 'leader') {
+      return;
+    }
+    toSharedIDLists(idLists).forEach((idList) => this.shareIDList(idList));
+    this.shareIDListNames(Object.keys(idLists));
+  }
+
+  public shareIDListNames(names: string[]): void {
+    if (this.role !== 'leader') {
+      return;
+    }
+    this.broadcast({ statsigSpecsSharing: 'id_list_names', names });
+  }
+
+  private onMessage(channel: SpecsSharingChannel, raw: unknown): void {
+    if (typeof (raw as SpecsSharingMessage)?.statsigSpecsSharing !== 'string') {
+      // Not ours, e.g. other IPC traffic of the application
+      return;
+    }
+    const message = raw as SpecsSharingMessage;
+    if (this.role === 'leader') {
+      if (message.statsigSpecsSharing === 'snapshot_request') {
+        this.sendSnapshot(channel);
+      }
+      return;
+    }
+
+    this.lastLeaderMessageTime = Date.now();
+    if (!this.following) {
+      this.following = true;
+      if (this.specsWaiter == null) {
+        this.handlers.onLeaderRestored();
+      }
+    }
+    switch (message.statsigSpecsSharing) {
+      case 'snapshot':
+        message.idLists.forEach((idList) => this.handlers.onIDList(idList));
+        this.handlers.onIDListNames(
+          message.idLists.map((idList) => idList.name),
+        );
+        this.handlers.onSpecs(message.specs, false);
+        this.specsWaiter?.();
+        break;
+      case 'specs':
+        // The leader had nothing to answer the snapshot request with
+        this.handlers.onSpecs(message.specs, message.rollback);
+        this.specsWaiter?.();
+        break;
+      case 'id_list':
+        this.handlers.onIDList(message.idList);
+        break;
+      case 'id_list_names':
+        this.handlers.onIDListNames(message.names);
+        break;
+    }
+  }
+
+  private listen(): void {
+    if (this.unsubscribers != null) {
+      return;
+    }
+    this.unsubscribers = this.channels.map((channel) =>
+      listen(channel, (message) => this.onMessage(channel, message)),
+    );
+  }
+
+  private checkLeader(): void {
+    if (
+      this.following &&
+      Date.now() - this.lastLeaderMessageTime > this.leaderTimeoutMs
+    ) {
+      this.following = false;
+      this.handlers.onLeaderLost();
+    }
+  }
+
+  private sendSnapshot(channel: SpecsSharingChannel): void {
+    if (this.lastSpecs == null) {
+      // The follower gets the specs broadcast after the first sync instead
+      return;
+    }
+    send(channel, {
+      statsigSpecsSharing: 'snapshot',
+      specs: this.lastSpecs,
+      idLists: toSharedIDLists(this.handlers.getIDLists()),
+    });
+  }
+
+  private broadcast(message: SpecsSharingMessage): void {
+    this.channels.forEach((channel) => send(channel, message));
+  }
+}
+
+function toSharedIDLists(idLists: Record<string, IDList>): SharedIDList[] {
+  return Object.keys(idLists).map((name) => {
+    const list = idLists[name];
+    return {
+      name,
+      url: list.url,
+      fileID: list.fileID,
+      creationTime: list.creationTime,
+      readBytes: list.readBytes,
+      reset: true,
+      data: IDListUtil.toAdditions(list.ids),
+    };
+  });
+}
+
+function send(channel: SpecsSharingChannel, message: SpecsSharingMessage) {
+  try {
+    if (typeof channel.postMessage === 'function') {
+      channel.postMessage(message);
+    } else if (typeof channel.send === 'function') {
+      channel.send(message);
+    }
+  } catch (e) {
+    // A closed channel, e.g. a worker that exited, is not fatal
+  }
+}
+
+function listen(
+  channel: SpecsSharingChannel,
+  onMessage: (message: unknown) => void,
+): () => void {
+  if (typeof channel.on === 'function') {
+    channel.on('message', onMessage);
+    return () => channel.off?.('message', onMessage);
+  }
+  if (typeof channel.addEventListener === 'function') {
+    const listener = (event: { data: unknown }) => onMessage(event.data);
+    channel.addEventListener('message', listener);
+    return () => channel.removeEventListener?.('message', listener);
+  }
+  return () => {};
+}
@@ -0,0 +1,311 @@
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+import { getSDKType, getSDKVersion } from './utils/core';
+import StatsigFetcher from './utils/StatsigFetcher';
+
+const DEFAULT_INITIAL_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 60 * 1000;
+const DEFAULT_IDLE_TIMEOUT_MS = 60 * 1000;
+// A connection that lasts this long no longer counts as a failed attempt
+const STABLE_CONNECTION_MS = 30 * 1000;
+
+export type SpecsStreamingOptions = {
+  /**
+   * Server-sent events endpoint. Each `message` (or `specs`) event carries a
+   * download_config_specs payload; other events, e.g. keepalives, are ignored.
+   * Where AbortController is missing (Node 14) the SDK keeps polling instead
+   */
+  url: string;
+  /**
+   * Delay before the first reconnect attempt, doubled after every failed one.
+   * Defaults to 1 second
+   */
+  initialReconnectDelayMs?: number;
+  /**
+   * Upper bound for the reconnect delay. Defaults to 60 seconds
+   */
+  maxReconnectDelayMs?: number;
+  /**
+   * Closes a connection that receives nothing, not even a keepalive, for this
+   * long, so polling takes over until it reconnects. Defaults to 60 seconds,
+   * 0 disables it
+   */
+  idleTimeoutMs?: number;
+};
+
+export type SpecsStreamHandlers = {
+  onSpecs: (specsString: string) => void;
+  onConnected: (status: number, isReconnect: boolean) => void;
+  onDisconnected: (reason: string, reconnectDelayMs: number) => void;
+};
+
+type StreamEvent = {
+  event: string;
+  data: string;
+};
+
+// The parts of a WHATWG ReadableStream that are used here, the lib setting
+// leaves out the DOM types
+type ReadableStream<T> = {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: T }>;
+  };
+};
+
+/**
+ * Keeps a server-sent events connection open and hands pushed config specs
+ * to the handlers. Reconnects with a jittered exponential backoff until stopped,
+ * which only resets once a connection delivers an event or stays up a while.
+ * Needs AbortController to close the connection, so it is not created without it
+ */
+export default class SpecsStream {
+  private url: string;
+  private initialReconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private idleTimeoutMs: number;
+  private fetcher: StatsigFetcher;
+  private sdkKey: string;
+  private handlers: SpecsStreamHandlers;
+  private controller: AbortController | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private stableTimer: NodeJS.Timeout | null = null;
+  private failedAttempts = 0;
+  private connected = false;
+  private hasConnected = false;
+  private stopped = true;
+
+  public constructor(
+    sdkKey: string,
+    fetcher: StatsigFetcher,
+    options: SpecsStreamingOptions,
+    handlers: SpecsStreamHandlers,
+  ) {
+    this.url = options.url;
+    this.initialReconnectDelayMs =
+      options.initialReconnectDelayMs ?? DEFAULT_INITIAL_RECONNECT_DELAY_MS;
+    this.maxReconnectDelayMs =
+      options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.fetcher = fetcher;
+    this.sdkKey = sdkKey;
+    this.handlers = handlers;
+  }
+
+  public start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.connect();
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.connected = false;
+    if (this.reconnectTimer != null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearConnectionTimers();
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  private connect(): void {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.fetcher
+      .fetch(this.url, {
+        method: 'GET',
+        headers: {
+          Accept: 'text/event-stream',
+          'STATSIG-API-KEY': this.sdkKey,
+          'STATSIG-SDK-TYPE': getSDKType(),
+          'STATSIG-SDK-VERSION': getSDKVersion(),
+        },
+        signal: controller.signal,
+      })
+      .then((res) => {
+        if (!res.ok || res.body == null) {
+          throw new Error(
+            'Request to ' + this.url + ' failed with status ' + res.status,
+          );
+        }
+        if (controller !== this.controller) {
+          return;
+        }
+        this.connected = true;
+        this.handlers.onConnected(res.status, this.hasConnected);
+        this.hasConnected = true;
+        this.stableTimer = setTimeout(() => {
+          this.failedAttempts = 0;
+        }, STABLE_CONNECTION_MS);
+        this.stableTimer.unref?.();
+        this.resetIdleTimer(controller);
+        const parser = new EventStreamParser((event) => this.onEvent(event));
+        return readEvents(toNodeStream(res.body), (text) => {
+          this.resetIdleTimer(controller);
+          parser.push(text);
+        });
+      })
+      .then(
+        () => this.onClosed(controller, 'closed'),
+        (e) => this.onClosed(controller, (e as Error)?.message ?? 'error'),
+      );
+  }
+
+  private onEvent(event: StreamEvent): void {
+    this.failedAttempts = 0;
+    if (event.event === 'message' || event.event === 'specs') {
+      this.handlers.onSpecs(event.data);
+    }
+  }
+
+  // Any data, keepalives included, shows the connection is alive
+  private resetIdleTimer(controller: AbortController): void {
+    if (this.idleTimeoutMs <= 0) {
+      return;
+    }
+    if (this.idleTimer != null) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => {
+      this.onClosed(controller, 'idle timeout');
+      controller.abort();
+    }, this.idleTimeoutMs);
+    this.idleTimer.unref?.();
+  }
+
+  private clearConnectionTimers(): void {
+    if (this.idleTimer != null) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.stableTimer != null) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private onClosed(controller: AbortController, reason: string): void {
+    if (this.stopped || controller !== this.controller) {
+      return;
+    }
+    // Later errors from the same connection, e.g. its abort, are ignored
+    this.controller = null;
+    this.connected = false;
+    this.clearConnectionTimers();
+    const backoff = Math.min(
+      this.initialReconnectDelayMs * Math.pow(2, this.failedAttempts),
+      this.maxReconnectDelayMs,
+    );
+    this.failedAttempts++;
+    const delay = backoff / 2 + (Math.random() * backoff) / 2;
+    this.handlers.onDisconnected(reason, Math.round(delay));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+    this.reconnectTimer.unref?.();
+  }
+}
+
+// A WHATWG fetch, e.g. a custom fetchImplementation, returns a web stream
+// instead of the Node stream from node-fetch
+function toNodeStream(
+  body: NodeJS.ReadableStream | ReadableStream<Uint8Array>,
+): NodeJS.ReadableStream {
+  if (!isWebStream(body)) {
+    return body;
+  }
+  const reader = body.getReader();
+  return new Readable({
+    read() {
+      reader.read().then(
+        (result) =>
+          this.push(result.done ? null : Buffer.from(result.value ?? [])),
+        (e: Error) => this.destroy(e),
+      );
+    },
+  });
+}
+
+function isWebStream<T>(
+  body: NodeJS.ReadableStream | ReadableStream<T>,
+): body is ReadableStream<T> {
+  return typeof (body as ReadableStream<T>).getReader === 'function';
+}
+
+// Reads a text/event-stream body until it ends
+function readEvents(
+  body: NodeJS.ReadableStream,
+  onText: (text: string) => void,
+): Promise<void> {
+  const decoder = new StringDecoder('utf8');
+  return new Promise((resolve, reject) => {
+    body.on('data', (chunk: Buffer | string) =>
+      onText(typeof chunk === 'string' ? chunk : decoder.write(chunk)),
+    );
+    body.on('end', () => resolve());
+    body.on('error', reject);
+  });
+}
+
+class EventStreamParser {
+  private buffer = '';
+  private eventName = '';
+  private data: string[] = [];
+  private onEvent: (event: StreamEvent) => void;
+
+  public constructor(onEvent: (event: StreamEvent) => void) {
+    this.onEvent = onEvent;
+  }
+
+  public push(text: string): void {
+    let input = this.buffer + text;
+    // A trailing \r may be the first half of a \r\n split across chunks
+    let carry = '';
+    if (input.charAt(input.length - 1) === '\r') {
+      input = input.slice(0, -1);
+      carry = '\r';
+    }
+    const lines = input.split(/\r\n|\r|\n/);
+    // The last piece is an incomplete line until its line break arrives
+    this.buffer = (lines.pop() ?? '') + carry;
+    lines.forEach((line) => this.parseLine(line));
+  }
+
+  private parseLine(line: string): void {
+    if (line === '') {
+      if (this.data.length > 0) {
+        this.onEvent({
+          event: this.eventName || 'message',
+          data: this.data.join('\n'),
+        });
+      }
+      this.eventName = '';
+      this.data = [];
+      return;
+    }
+    if (line.charAt(0) === ':') {
+      return;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.charAt(0) === ' ') {
+      value = value.slice(1);
+    }
+    if (field === 'event') {
+      this.eventName = value;
+    } else if (field === 'data') {
+      this.data.push(value);
+    }
+  }
+}
@@ -1,4 +1,11 @@
+import { ConfigCondition } from './ConfigSpec';
 import { IDataAdapter } from './interfaces/IDataAdapter';
+import { IEventExporter } from './interfaces/IEventExporter';
+import { LogEventData, SecondaryExposure } from './LogEvent';
+import { PersistentEventQueueOptions } from './PersistentEventQueue';
+import { SpecsSharingOptions } from './SpecsSharing';
+import { SpecsStreamingOptions } from './SpecsStream';
+import { StatsigUser } from './StatsigUser';
 
 const DEFAULT_RULESETS_SYNC_INTERVAL = 10 * 1000;
 const MIN_RULESETS_SYNC_INTERVAL = 5 * 1000;
@@ -9,6 +16,16 @@ const DEFAULT_MAX_LOGGING_BUFFER_SIZE = 1000;
 const DEFAULT_LOG_DIAGNOSTICS = false;
 const DEFAULT_POST_LOGS_RETRY_LIMIT = 5;
 const DEFAULT_POST_LOGS_RETRY_BACKOFF = 1000;
+const DEFAULT_LOGGING_MAX_BATCH_BYTES = 1024 * 1024;
+const DEFAULT_EXPOSURE_DEDUPE_WINDOW = 60 * 1000;
+const DEFAULT_EXPOSURE_DEDUPE_MAX_KEYS = 100 * 1000;
+const DEFAULT_DOWNLOAD_CONFIG_SPECS_TIMEOUT = 30 * 1000;
+const DEFAULT_GET_ID_LISTS_TIMEOUT = 30 * 1000;
+const DEFAULT_ID_LIST_DOWNLOAD_TIMEOUT = 60 * 1000;
+const DEFAULT_LOG_EVENT_TIMEOUT = 30 * 1000;
+const DEFAULT_SPECS_HISTORY_SIZE = 5;
+const DEFAULT_CIRCUIT_BREAKER_FAILURE_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_BREAKER_COOLDOWN = 30 * 1000;
 
 export type RulesUpdatedCallback = (rulesJSON: string, time: number) => void;
 export type RetryBackoffFunc = (retriesRemaining: number) => number;
@@ -20,6 +37,100 @@ export type StatsigEnvironment = {
 
 export type InitStrategy = 'await' | 'lazy' | 'none';
 
+/**
+ * How repeated exposures are recognized within the dedupe window.
+ * 'event' compares the unit IDs and every exposure field.
+ * 'assignment' only compares the unit IDs, config, rule and group, so one
+ * exposure is kept per assignment, e.g. per layer rather than per parameter.
+ * Layer parameters still count separately when they are allocated to
+ * different experiments.
+ */
+export type ExposureDedupeStrategy = 'event' | 'assignment';
+
+/**
+ * The outcome of a custom condition evaluator.
+ * Return `passes` to decide the condition directly, or `value` to have it
+ * compared against the condition's targetValue with the condition's operator.
+ * `unsupported` marks the evaluation as Unsupported, same as an unknown condition type.
+ */
+export type CustomConditionResult = {
+  value?: unknown;
+  passes?: boolean;
+  unsupported?: boolean;
+  secondaryExposures?: SecondaryExposure[];
+};
+
+export type CustomConditionEvaluator = (
+  user: StatsigUser,
+  condition: ConfigCondition,
+) => CustomConditionResult;
+
+export type CustomOperator = (
+  value: unknown,
+  targetValue: unknown,
+  condition: ConfigCondition,
+) => boolean;
+
+/**
+ * Called with every event before it is queued for upload.
+ * Return the event, possibly modified, or null to drop it. Returning nothing
+ * keeps the event, e.g. after modifying it in place.
+ * If the hook throws, the error is reported and the event is logged unchanged.
+ */
+export type BeforeLogEventHook = (
+  event: LogEventData,
+) => LogEventData | null | void;
+
+/**
+ * Keeps only a fraction of the events with a given name.
+ * With the 'random' strategy each event is kept independently. With 'unit_id'
+ * the decision is a hash of the event name and the unit ID named by idType
+ * (userID by default), so a unit's events are either all kept or all dropped.
+ * Exposure events are only sampled when their names, e.g. 'statsig::gate_exposure',
+ * are given a rule.
+ */
+export type EventSamplingRule = {
+  rate: number;
+  strategy?: 'random' | 'unit_id';
+  idType?: string;
+};
+
+/**
+ * A fetch compatible function used for every outbound request.
+ * Receives node-fetch style parameters, including `agent` when httpAgentOptions is set
+ */
+export type FetchImplementation = (
+  url: string,
+  params: Record<string, unknown>,
+) => Promise<Response>;
+
+/**
+ * Settings for the agents behind every outbound request.
+ * proxyUrl is an http:// proxy, optionally with credentials, that requests
+ * are tunneled through with CONNECT. connectTimeoutMs bounds the wait for the
+ * proxy to answer the CONNECT, defaults to 10 seconds.
+ * ca, cert and key apply to https requests, for private CAs and client certificates
+ */
+export type HttpAgentOptions = {
+  keepAlive?: boolean;
+  maxSockets?: number;
+  proxyUrl?: string;
+  connectTimeoutMs?: number;
+  ca?: string | Buffer | Array<string | Buffer>;
+  cert?: string | Buffer;
+  key?: string | Buffer;
+};
+
+/**
+ * A local file an ID list is loaded from, in the same +id / -id line format as
+ * the network lists. Appends to the file are picked up while it is watched.
+ * With unhashedIDs the lines hold plain unit IDs, which are hashed when read
+ */
+export type IDListFile = {
+  filePath: string;
+  unhashedIDs?: boolean;
+};
+
 export interface LoggerInterface {
   warn(message?: any, ...optionalParams: any[]): void;
   error(message?: any, ...optionalParams: any[]): void;
@@ -46,6 +157,30 @@ export type ExplicitStatsigOptions = {
   postLogsRetryBackoff: RetryBackoffFunc | number;
   disableRulesetsSync: boolean;
   disableIdListsSync: boolean;
+  customConditionEvaluators: Record<string, CustomConditionEvaluator>;
+  customOperators: Record<string, CustomOperator>;
+  specsFilePath: string | null;
+  eventExporters: IEventExporter[];
+  persistentEventQueue: PersistentEventQueueOptions | null;
+  beforeLogEvent: BeforeLogEventHook | null;
+  exposureDedupeWindowMs: number;
+  exposureDedupeMaxKeys: number;
+  exposureDedupeStrategy: ExposureDedupeStrategy;
+  eventSampling: Record<string, EventSamplingRule>;
+  loggingMaxBatchBytes: number;
+  compressLogEvents: boolean;
+  fetchImplementation: FetchImplementation | null;
+  httpAgentOptions: HttpAgentOptions | null;
+  circuitBreakerFailureThreshold: number;
+  circuitBreakerCooldownMs: number;
+  downloadConfigSpecsTimeoutMs: number;
+  getIdListsTimeoutMs: number;
+  idListDownloadTimeoutMs: number;
+  logEventTimeoutMs: number;
+  specsStreaming: SpecsStreamingOptions | null;
+  specsHistorySize: number;
+  specsSharing: SpecsSharingOptions | null;
+  idListFiles: Record<string, IDListFile> | null;
 };
 
 /**
@@ -110,6 +245,94 @@ export function OptionsWithDefaults(
       opts.postLogsRetryBackoff ?? DEFAULT_POST_LOGS_RETRY_BACKOFF,
     disableRulesetsSync: opts.disableRulesetsSync ?? false,
     disableIdListsSync: opts.disableIdListsSync ?? false,
+    customConditionEvaluators: getObject(
+      opts,
+      'customConditionEvaluators',
+      {},
+    ) as Record<string, CustomConditionEvaluator>,
+    customOperators: getObject(opts, 'customOperators', {}) as Record<
+      string,
+      CustomOperator
+    >,
+    specsFilePath: getString(opts, 'specsFilePath', null),
+    eventExporters: Array.isArray(opts.eventExporters)
+      ? opts.eventExporters
+      : [],
+    persistentEventQueue: opts.persistentEventQueue ?? null,
+    beforeLogEvent: opts.beforeLogEvent
+      ? (getFunction(opts, 'beforeLogEvent') as BeforeLogEventHook)
+      : null,
+    exposureDedupeWindowMs: getNumber(
+      opts,
+      'exposureDedupeWindowMs',
+      DEFAULT_EXPOSURE_DEDUPE_WINDOW,
+    ),
+    exposureDedupeMaxKeys: getNumber(
+      opts,
+      'exposureDedupeMaxKeys',
+      DEFAULT_EXPOSURE_DEDUPE_MAX_KEYS,
+    ),
+    exposureDedupeStrategy:
+      opts.exposureDedupeStrategy === 'assignment' ? 'assignment' : 'event',
+    eventSampling: getObject(opts, 'eventSampling', {}) as Record<
+      string,
+      EventSamplingRule
+    >,
+    loggingMaxBatchBytes: getNumber(
+      opts,
+      'loggingMaxBatchBytes',
+      DEFAULT_LOGGING_MAX_BATCH_BYTES,
+    ),
+    compressLogEvents: getBoolean(opts, 'compressLogEvents', false),
+    fetchImplementation: opts.fetchImplementation
+      ? (getFunction(opts, 'fetchImplementation') as FetchImplementation)
+      : null,
+    httpAgentOptions: opts.httpAgentOptions
+      ? (getObject(opts, 'httpAgentOptions', {}) as HttpAgentOptions)
+      : null,
+    circuitBreakerFailureThreshold: getNumber(
+      opts,
+      'circuitBreakerFailureThreshold',
+      DEFAULT_CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+    ),
+    circuitBreakerCooldownMs: getNumber(
+      opts,
+      'circuitBreakerCooldownMs',
+      DEFAULT_CIRCUIT_BREAKER_COOLDOWN,
+    ),
+    downloadConfigSpecsTimeoutMs: getNumber(
+      opts,
+      'downloadConfigSpecsTimeoutMs',
+      DEFAULT_DOWNLOAD_CONFIG_SPECS_TIMEOUT,
+    ),
+    getIdListsTimeoutMs: getNumber(
+      opts,
+      'getIdListsTimeoutMs',
+      DEFAULT_GET_ID_LISTS_TIMEOUT,
+    ),
+    idListDownloadTimeoutMs: getNumber(
+      opts,
+      'idListDownloadTimeoutMs',
+      DEFAULT_ID_LIST_DOWNLOAD_TIMEOUT,
+    ),
+    logEventTimeoutMs: getNumber(
+      opts,
+      'logEventTimeoutMs',
+      DEFAULT_LOG_EVENT_TIMEOUT,
+    ),
+    specsStreaming:
+      typeof opts.specsStreaming?.url === 'string' ? opts.specsStreaming : null,
+    specsHistorySize: getNumber(
+      opts,
+      'specsHistorySize',
+      DEFAULT_SPECS_HISTORY_SIZE,
+    ),
+    specsSharing: Array.isArray(opts.specsSharing?.channels)
+      ? (opts.specsSharing ?? null)
+      : null,
+    idListFiles: opts.idListFiles
+      ? (getObject(opts, 'idListFiles', {}) as Record<string, IDListFile>)
+      : null,
   };
 }
 
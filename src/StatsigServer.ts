@@ -6,7 +6,11 @@ import {
   StatsigInvalidArgumentError,
   StatsigUninitializedError,
 } from './Errors';
-import Evaluator, { ClientInitializeResponse } from './Evaluator';
+import Evaluator, {
+  ClientInitializeResponse,
+  StatsigOverrides,
+} from './Evaluator';
+import { EvaluationExplanation } from './EvaluationTrace';
 import {
   FeatureGate,
   makeEmptyFeatureGate,
@@ -21,11 +25,13 @@ import {
   OptionsWithDefaults,
   StatsigOptions,
 } from './StatsigOptions';
+import { SpecsChangedListener } from './SpecsDiff';
 import { StatsigUser } from './StatsigUser';
 import StatsigFetcher from './utils/StatsigFetcher';
 import asyncify from './utils/asyncify';
 import { getStatsigMetadata, isUserIdentifiable } from './utils/core';
 import { HashingAlgorithm } from './utils/Hashing';
+import { IDListStats } from './utils/IDListUtil';
 
 const MAX_VALUE_SIZE = 64;
 const MAX_OBJ_SIZE = 2048;
@@ -54,6 +60,27 @@ export type ClientInitializeResponseOptions = {
   hash?: HashingAlgorithm;
 };
 
+export type EvaluationEntityType =
+  | 'feature_gate'
+  | 'segment'
+  | 'holdout'
+  | 'dynamic_config'
+  | 'experiment'
+  | 'autotune'
+  | 'layer';
+
+export type AllEvaluationsOptions = {
+  entityTypes?: EvaluationEntityType[];
+  namePrefix?: string;
+  exposureLogging?: boolean;
+};
+
+export type AllEvaluations = {
+  featureGates: Record<string, FeatureGate>;
+  dynamicConfigs: Record<string, DynamicConfig>;
+  layers: Record<string, Layer>;
+};
+
 /**
  * The global statsig class for interacting with gates, configs, experiments configured in the statsig developer console.  Also used for event logging to view in the statsig console, or for analyzing experiment impacts using pulse.
  */
@@ -75,18 +102,25 @@ export default class StatsigServer {
     this._pendingInitPromise = null;
     this._ready = false;
     this._fetcher = new StatsigFetcher(this._secretKey, this._options);
-    this._logger = new LogEventProcessor(this._fetcher, this._options);
+    this._errorBoundary = new ErrorBoundary(secretKey, (url, params) =>
+      this._fetcher.fetch(url, params),
+    );
+    this._logger = new LogEventProcessor(
+      this._fetcher,
+      this._options,
+      this._errorBoundary,
+    );
     this._diagnostics = new Diagnostics({
       logger: this._logger,
       options: this._options,
     });
+    this._fetcher.setDiagnostics(this._diagnostics);
     this._evaluator = new Evaluator(
       this._secretKey,
       this._fetcher,
       this._options,
       this._diagnostics,
     );
-    this._errorBoundary = new ErrorBoundary(secretKey);
   }
 
   /**
@@ -129,6 +163,7 @@ export default class StatsigServer {
         const initPromise = this._evaluator.init().finally(() => {
           this._ready = true;
           this._pendingInitPromise = null;
+          this._logger.onInitialized();
           this._diagnostics.mark(
             'initialize',
             'overall',
@@ -323,6 +358,74 @@ export default class StatsigServer {
 
   //#endregion
 
+  // #region Get All Evaluations
+
+  /**
+   * Evaluates every gate, config, experiment and layer for the given user in one pass.
+   * Exposures are not logged unless options.exposureLogging is set.
+   * @throws Error if initialize() was not called first
+   */
+  public getAllEvaluations(
+    user: StatsigUser,
+    options: AllEvaluationsOptions = {},
+  ): AllEvaluations {
+    return this._errorBoundary.capture(
+      () => this.getAllEvaluationsImpl(user, options),
+      () => ({ featureGates: {}, dynamicConfigs: {}, layers: {} }),
+    );
+  }
+
+  //#endregion
+
+  // #region Explain
+
+  /**
+   * Explains why the user got the value of a gate, without logging an exposure
+   * @throws Error if initialize() was not called first
+   * @throws Error if the gateName is not provided or not a non-empty string
+   */
+  public explainGate(
+    user: StatsigUser,
+    gateName: string,
+  ): EvaluationExplanation | null {
+    return this._errorBoundary.capture(
+      () => this.explainImpl(user, gateName, 'gate'),
+      () => null,
+    );
+  }
+
+  /**
+   * Explains why the user got the value of a config or experiment, without logging an exposure
+   * @throws Error if initialize() was not called first
+   * @throws Error if the configName is not provided or not a non-empty string
+   */
+  public explainConfig(
+    user: StatsigUser,
+    configName: string,
+  ): EvaluationExplanation | null {
+    return this._errorBoundary.capture(
+      () => this.explainImpl(user, configName, 'config'),
+      () => null,
+    );
+  }
+
+  /**
+   * Explains why the user got the value of a layer, without logging an exposure
+   * @throws Error if initialize() was not called first
+   * @throws Error if the layerName is not provided or not a non-empty string
+   */
+  public explainLayer(
+    user: StatsigUser,
+    layerName: string,
+  ): EvaluationExplanation | null {
+    return this._errorBoundary.capture(
+      () => this.explainImpl(user, layerName, 'layer'),
+      () => null,
+    );
+  }
+
+  //#endregion
+
   /**
    * Log an event for data analysis and alerting or to measure the impact of an experiment
    * @throws Error if initialize() was not called first
@@ -524,6 +627,23 @@ export default class StatsigServer {
     });
   }
 
+  /**
+   * Runs fn with gate, config and layer overrides that only apply within its
+   * async context. Errors thrown by fn are not caught by the error boundary.
+   */
+  public runWithOverrides<T>(overrides: StatsigOverrides, fn: () => T): T {
+    if (
+      overrides == null ||
+      typeof overrides !== 'object' ||
+      typeof fn !== 'function'
+    ) {
+      throw new StatsigInvalidArgumentError(
+        'runWithOverrides requires overrides and a function',
+      );
+    }
+    return this._evaluator.runWithOverrides(overrides, fn);
+  }
+
   public getFeatureGateList(): string[] {
     return this._evaluator.getFeatureGateList();
   }
@@ -544,6 +664,85 @@ export default class StatsigServer {
     return this._evaluator.getLayerList();
   }
 
+  /**
+   * Registers a listener called with the added, removed and modified gates, configs
+   * and layers each time a sync changes the specs.
+   * @returns a function that removes the listener
+   */
+  public onSpecsChanged(listener: SpecsChangedListener): () => void {
+    return this._errorBoundary.capture(
+      () => {
+        if (typeof listener !== 'function') {
+          throw new StatsigInvalidArgumentError(
+            'onSpecsChanged requires a listener function',
+          );
+        }
+        return this._evaluator.onSpecsChanged(listener);
+      },
+      () => () => {},
+    );
+  }
+
+  public getIDListStats(): IDListStats[] {
+    return this._errorBoundary.capture(
+      () => this._evaluator.getIDListStats(),
+      () => [],
+    );
+  }
+
+  public isInIDList(listName: string, unitID: string): boolean {
+    return this._errorBoundary.capture(
+      () => {
+        if (typeof listName !== 'string' || typeof unitID !== 'string') {
+          throw new StatsigInvalidArgumentError(
+            'isInIDList requires a list name and a unit ID',
+          );
+        }
+        return this._evaluator.isInIDList(listName, unitID);
+      },
+      () => false,
+    );
+  }
+
+  public getSpecsSnapshotTimes(): number[] {
+    return this._errorBoundary.capture(
+      () => this._evaluator.getSpecsSnapshotTimes(),
+      () => [],
+    );
+  }
+
+  public rollbackSpecs(time: number): boolean {
+    return this._errorBoundary.capture(
+      () => {
+        if (typeof time !== 'number') {
+          throw new StatsigInvalidArgumentError(
+            'rollbackSpecs requires a time',
+          );
+        }
+        return this._evaluator.rollbackSpecs(time);
+      },
+      () => false,
+    );
+  }
+
+  public pinSpecs(): void {
+    this._errorBoundary.swallow(() => this._evaluator.pinSpecs());
+  }
+
+  public unpinSpecs(): Promise<void> {
+    return this._errorBoundary.capture(
+      () => this._evaluator.unpinSpecs(),
+      () => Promise.resolve(),
+    );
+  }
+
+  public getSuppressedExposureCounts(): Record<string, number> {
+    return this._errorBoundary.capture(
+      () => this._logger.getSuppressedExposureCounts(),
+      () => ({}),
+    );
+  }
+
   //#region Deprecated Async Methods
 
   /**
@@ -706,6 +905,13 @@ export default class StatsigServer {
       this._logger.incrementNonExposedChecks(gateName);
     }
 
+    return this._makeFeatureGate(gateName, evaluation);
+  }
+
+  private _makeFeatureGate(
+    gateName: string,
+    evaluation: ConfigEvaluation,
+  ): FeatureGate {
     return makeFeatureGate(
       gateName,
       evaluation.rule_id,
@@ -744,16 +950,7 @@ export default class StatsigServer {
     }
 
     const evaluation = this._evaluator.getConfig(user, configName);
-    const config = new DynamicConfig(
-      configName,
-      evaluation.json_value as Record<string, unknown>,
-      evaluation.rule_id,
-      evaluation.group_name,
-      evaluation.secondary_exposures,
-      evaluation.rule_id !== ''
-        ? this._makeOnDefaultValueFallbackFunction(user)
-        : null,
-    );
+    const config = this._makeDynamicConfig(user, configName, evaluation);
 
     if (exposureLogging !== ExposureLogging.Disabled) {
       this.logConfigExposureImpl(
@@ -769,6 +966,23 @@ export default class StatsigServer {
     return config;
   }
 
+  private _makeDynamicConfig(
+    user: StatsigUser,
+    configName: string,
+    evaluation: ConfigEvaluation,
+  ): DynamicConfig {
+    return new DynamicConfig(
+      configName,
+      evaluation.json_value as Record<string, unknown>,
+      evaluation.rule_id,
+      evaluation.group_name,
+      evaluation.secondary_exposures,
+      evaluation.rule_id !== ''
+        ? this._makeOnDefaultValueFallbackFunction(user)
+        : null,
+    );
+  }
+
   private getLayerImpl(
     inputUser: StatsigUser,
     layerName: string,
@@ -784,28 +998,143 @@ export default class StatsigServer {
     }
 
     const ret = this._evaluator.getLayer(user, layerName);
+
+    if (exposureLogging === ExposureLogging.Disabled) {
+      this._logger.incrementNonExposedChecks(layerName);
+    }
+
+    return this._makeLayer(user, layerName, ret, exposureLogging);
+  }
+
+  private _makeLayer(
+    user: StatsigUser,
+    layerName: string,
+    evaluation: ConfigEvaluation,
+    exposureLogging: ExposureLogging,
+  ): Layer {
     const logFunc = (layer: Layer, parameterName: string) => {
       this.logLayerParameterExposureImpl(
         user,
         layerName,
         parameterName,
-        ret,
+        evaluation,
         ExposureCause.Automatic,
       );
     };
 
-    if (exposureLogging === ExposureLogging.Disabled) {
-      this._logger.incrementNonExposedChecks(layerName);
-    }
-
     return new Layer(
       layerName,
-      ret?.json_value as Record<string, unknown>,
-      ret?.rule_id,
+      evaluation?.json_value as Record<string, unknown>,
+      evaluation?.rule_id,
       exposureLogging === ExposureLogging.Disabled ? null : logFunc,
     );
   }
 
+  private getAllEvaluationsImpl(
+    inputUser: StatsigUser,
+    options: AllEvaluationsOptions,
+  ): AllEvaluations {
+    const { error, normalizedUser: user } = this._validateUser(inputUser);
+
+    if (error) {
+      throw error;
+    }
+
+    const entityTypes = options.entityTypes ?? null;
+    const namePrefix = options.namePrefix ?? '';
+    const exposureLogging =
+      options.exposureLogging === true
+        ? ExposureLogging.Enabled
+        : ExposureLogging.Disabled;
+
+    const evaluations = this._evaluator.getAllEvaluations(
+      user,
+      (spec) =>
+        spec.name.startsWith(namePrefix) &&
+        (entityTypes == null ||
+          entityTypes.includes(spec.entity as EvaluationEntityType)),
+    );
+
+    const result: AllEvaluations = {
+      featureGates: {},
+      dynamicConfigs: {},
+      layers: {},
+    };
+    for (const [name, evaluation] of Object.entries(evaluations.gates)) {
+      if (exposureLogging === ExposureLogging.Enabled) {
+        this.logGateExposureImpl(
+          user,
+          name,
+          evaluation,
+          ExposureCause.Automatic,
+        );
+      } else {
+        this._logger.incrementNonExposedChecks(name);
+      }
+      result.featureGates[name] = this._makeFeatureGate(name, evaluation);
+    }
+    for (const [name, evaluation] of Object.entries(evaluations.configs)) {
+      if (exposureLogging === ExposureLogging.Enabled) {
+        this.logConfigExposureImpl(
+          user,
+          name,
+          evaluation,
+          ExposureCause.Automatic,
+        );
+      } else {
+        this._logger.incrementNonExposedChecks(name);
+      }
+      result.dynamicConfigs[name] = this._makeDynamicConfig(
+        user,
+        name,
+        evaluation,
+      );
+    }
+    for (const [name, evaluation] of Object.entries(evaluations.layers)) {
+      if (exposureLogging === ExposureLogging.Disabled) {
+        this._logger.incrementNonExposedChecks(name);
+      }
+      result.layers[name] = this._makeLayer(
+        user,
+        name,
+        evaluation,
+        exposureLogging,
+      );
+    }
+    return result;
+  }
+
+  private explainImpl(
+    inputUser: StatsigUser,
+    name: string,
+    entityType: 'gate' | 'config' | 'layer',
+  ): EvaluationExplanation {
+    const { error, normalizedUser: user } = this._validateInputs(
+      inputUser,
+      name,
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    const { evaluation, trace } = this._evaluator.explain(
+      user,
+      name,
+      entityType,
+    );
+    return {
+      name,
+      value: evaluation.value === true,
+      jsonValue: evaluation.json_value,
+      ruleID: evaluation.rule_id,
+      groupName: evaluation.group_name,
+      secondaryExposures: evaluation.secondary_exposures,
+      evaluationDetails: evaluation.evaluation_details ?? null,
+      trace,
+    };
+  }
+
   private logLayerParameterExposureImpl(
     user: StatsigUser,
     layerName: string,
@@ -827,16 +1156,25 @@ export default class StatsigServer {
   }
 
   private _validateInputs(user: StatsigUser, configName: string) {
+    const result = this._validateUser(user);
+    if (
+      this._ready === true &&
+      (typeof configName !== 'string' || configName.length === 0)
+    ) {
+      result.error = new StatsigInvalidArgumentError(
+        'Lookup key must be a non-empty string',
+      );
+    }
+    return result;
+  }
+
+  private _validateUser(user: StatsigUser) {
     const result: {
       error: null | Error;
       normalizedUser: StatsigUser;
     } = { error: null, normalizedUser: { userID: '' } };
     if (this._ready !== true) {
       result.error = new StatsigUninitializedError();
-    } else if (typeof configName !== 'string' || configName.length === 0) {
-      result.error = new StatsigInvalidArgumentError(
-        'Lookup key must be a non-empty string',
-      );
     } else if (!isUserIdentifiable(user)) {
       result.error = new StatsigInvalidArgumentError(
         'Must pass a valid user with a userID or customID for the server SDK to work. See https://docs.statsig.com/messages/serverRequiredUserID/ for more details.',
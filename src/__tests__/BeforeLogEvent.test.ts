@@ -0,0 +1,120 @@
+import Statsig from '../index';
+import { LogEventData } from '../LogEvent';
+import { BeforeLogEventHook } from '../StatsigOptions';
+import StatsigTestUtils from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const user = { userID: 'a-user', email: 'someone@nfl.com' };
+
+describe('beforeLogEvent', () => {
+  let events: LogEventData[] = [];
+
+  function initialize(beforeLogEvent: BeforeLogEventHook) {
+    return StatsigTestUtils.initialize({ beforeLogEvent });
+  }
+
+  beforeEach(() => {
+    events = StatsigTestUtils.mockNetwork();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+  });
+
+  it('redacts and enriches custom and exposure events', async () => {
+    await initialize((event) => ({
+      ...event,
+      user: event.user ? { ...event.user, email: undefined } : null,
+      metadata: { ...event.metadata, deployment: 'canary' },
+    }));
+
+    Statsig.logEvent(user, 'custom_event', null, { page: 'home' });
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.getConfig(user, 'teams');
+    await Statsig.getLayer(user, 'unallocated_layer').then((layer) =>
+      layer.get('b_param', ''),
+    );
+    await Statsig.flush();
+
+    expect(events.map((event) => event.eventName)).toEqual([
+      'custom_event',
+      'statsig::gate_exposure',
+      'statsig::config_exposure',
+      'statsig::layer_exposure',
+    ]);
+    events.forEach((event) => {
+      expect(event.user?.email).toBeUndefined();
+      expect(event.user?.userID).toEqual('a-user');
+      expect(event.metadata?.deployment).toEqual('canary');
+    });
+    expect(events[0].metadata?.page).toEqual('home');
+    expect(events[1].metadata?.gate).toEqual('nfl_gate');
+  });
+
+  it('drops events when the hook returns null', async () => {
+    await initialize((event) =>
+      event.eventName === 'statsig::gate_exposure' ? null : event,
+    );
+
+    Statsig.logEvent(user, 'custom_event');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.flush();
+
+    expect(events.map((event) => event.eventName)).toEqual(['custom_event']);
+  });
+
+  it('applies to diagnostics events', async () => {
+    const seen: string[] = [];
+    await StatsigTestUtils.initialize({
+      disableDiagnostics: false,
+      beforeLogEvent: (event) => {
+        seen.push(event.eventName);
+        return event;
+      },
+    });
+    await Statsig.flush();
+
+    expect(seen).toContain('statsig::diagnostics');
+  });
+
+  it('reports a hook that throws and keeps the event', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await initialize((event) => {
+      if (event.eventName === 'statsig::gate_exposure') {
+        throw new Error('hook failure');
+      }
+      return event;
+    });
+
+    expect(await Statsig.checkGate(user, 'nfl_gate')).toBe(true);
+    Statsig.logEvent(user, 'custom_event');
+    await Statsig.flush();
+
+    expect(events.map((event) => event.eventName)).toEqual([
+      'statsig::gate_exposure',
+      'custom_event',
+    ]);
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[Statsig] An unexpected exception occurred.',
+      new Error('hook failure'),
+    );
+    const fetch = require('node-fetch');
+    expect(
+      fetch.mock.calls.filter(([url]) => url.includes('sdk_exception')).length,
+    ).toBe(1);
+  });
+
+  it('keeps events when the hook returns nothing', async () => {
+    await initialize((event) => {
+      event.metadata = { ...event.metadata, deployment: 'canary' };
+    });
+
+    Statsig.logEvent(user, 'custom_event');
+    await Statsig.flush();
+
+    expect(events.map((event) => event.eventName)).toEqual(['custom_event']);
+    expect(events[0].metadata?.deployment).toEqual('canary');
+  });
+});
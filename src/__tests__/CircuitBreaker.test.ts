@@ -0,0 +1,218 @@
+import Diagnostics from '../Diagnostics';
+import { StatsigCircuitOpenError } from '../Errors';
+import { OptionsWithDefaults, StatsigOptions } from '../StatsigOptions';
+import StatsigFetcher from '../utils/StatsigFetcher';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const DCS_URL = 'https://api.example.com/v1/download_config_specs/secret.json';
+const LOG_URL = 'https://api.example.com/v1/log_event';
+
+type MockResponse = {
+  status: number;
+  headers?: Record<string, string>;
+};
+
+describe('circuit breaker and Retry-After', () => {
+  let responses: (MockResponse | Error)[] = [];
+  let requestTimes: number[] = [];
+  let logMarker: jest.Mock;
+
+  function makeFetcher(options: StatsigOptions = {}): StatsigFetcher {
+    const fetcher = new StatsigFetcher(
+      'secret-key',
+      OptionsWithDefaults({
+        circuitBreakerFailureThreshold: 2,
+        circuitBreakerCooldownMs: 1000,
+        ...options,
+      }),
+    );
+    fetcher.setDiagnostics({ logMarker } as unknown as Diagnostics);
+    return fetcher;
+  }
+
+  function markerStates(): unknown[] {
+    return logMarker.mock.calls.map(([context, marker]) => [
+      context,
+      marker.value,
+      marker.metadata.url,
+    ]);
+  }
+
+  beforeEach(() => {
+    responses = [];
+    requestTimes = [];
+    logMarker = jest.fn();
+    const fetch = require('node-fetch');
+    fetch.mockImplementation(() => {
+      requestTimes.push(Date.now());
+      const response = responses.shift() ?? { status: 200 };
+      if (response instanceof Error) {
+        return Promise.reject(response);
+      }
+      const headers = response.headers ?? {};
+      return Promise.resolve({
+        ok: response.status < 300,
+        status: response.status,
+        headers: { get: (name: string) => headers[name] ?? null },
+      });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens after consecutive failures and probes after the cooldown', async () => {
+    const fetcher = makeFetcher();
+    responses = [{ status: 500 }, new Error('offline')];
+    await expect(fetcher.get(DCS_URL)).rejects.toThrow();
+    await expect(fetcher.get(DCS_URL)).rejects.toThrow('offline');
+
+    await expect(fetcher.get(DCS_URL)).rejects.toBeInstanceOf(
+      StatsigCircuitOpenError,
+    );
+    // Other endpoints are unaffected
+    await expect(fetcher.post(LOG_URL, {})).resolves.toBeTruthy();
+    expect(requestTimes.length).toBe(3);
+    expect(markerStates()).toEqual([
+      [
+        'config_sync',
+        'open',
+        'https://api.example.com/v1/download_config_specs',
+      ],
+    ]);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 1000);
+    responses = [{ status: 503 }];
+    await expect(fetcher.get(DCS_URL)).rejects.toThrow();
+    await expect(fetcher.get(DCS_URL)).rejects.toBeInstanceOf(
+      StatsigCircuitOpenError,
+    );
+
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 2000);
+    await expect(fetcher.get(DCS_URL)).resolves.toBeTruthy();
+    await expect(fetcher.get(DCS_URL)).resolves.toBeTruthy();
+    expect(markerStates().map(([, state]) => state)).toEqual([
+      'open',
+      'half_open',
+      'open',
+      'half_open',
+      'closed',
+    ]);
+    fetcher.shutdown();
+  });
+
+  it('only lets one probe through while half open', async () => {
+    const fetcher = makeFetcher({ circuitBreakerCooldownMs: 0 });
+    responses = [{ status: 500 }, { status: 500 }];
+    await expect(fetcher.post(LOG_URL, {})).rejects.toThrow();
+    await expect(fetcher.post(LOG_URL, {})).rejects.toThrow();
+
+    const probe = fetcher.post(LOG_URL, {});
+    await expect(fetcher.post(LOG_URL, {})).rejects.toBeInstanceOf(
+      StatsigCircuitOpenError,
+    );
+    await expect(probe).resolves.toBeTruthy();
+    expect(markerStates()).toEqual([
+      ['event_logging', 'open', LOG_URL],
+      ['event_logging', 'half_open', LOG_URL],
+      ['event_logging', 'closed', LOG_URL],
+    ]);
+    fetcher.shutdown();
+  });
+
+  it('waits for Retry-After before retrying and holds back other requests', async () => {
+    const fetcher = makeFetcher({ circuitBreakerFailureThreshold: 0 });
+    responses = [{ status: 429, headers: { 'retry-after': '0.2' } }];
+    const request = fetcher.post(LOG_URL, {}, 1, 10);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await expect(fetcher.post(LOG_URL, {})).rejects.toBeInstanceOf(
+      StatsigCircuitOpenError,
+    );
+
+    await expect(request).resolves.toBeTruthy();
+    expect(requestTimes.length).toBe(2);
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(200);
+    expect(logMarker).not.toHaveBeenCalled();
+    fetcher.shutdown();
+  });
+
+  it('accepts Retry-After as an http date', async () => {
+    const fetcher = makeFetcher();
+    responses = [
+      {
+        status: 503,
+        headers: {
+          'retry-after': new Date(Date.now() + 60 * 1000).toUTCString(),
+        },
+      },
+    ];
+    await expect(fetcher.get(DCS_URL)).rejects.toThrow();
+    await expect(fetcher.get(DCS_URL)).rejects.toBeInstanceOf(
+      StatsigCircuitOpenError,
+    );
+    fetcher.shutdown();
+  });
+
+  it('adds jitter to the retry backoff', async () => {
+    jest.spyOn(Math, 'random').mockImplementation(() => 0);
+    const fetcher = makeFetcher();
+    responses = [{ status: 500 }];
+    await expect(fetcher.post(LOG_URL, {}, 1, 200)).resolves.toBeTruthy();
+
+    const delay = requestTimes[1] - requestTimes[0];
+    expect(delay).toBeGreaterThanOrEqual(95);
+    expect(delay).toBeLessThan(190);
+    fetcher.shutdown();
+  });
+
+  it('counts a request and its retries as one failure', async () => {
+    const fetcher = makeFetcher();
+    responses = Array(10).fill({ status: 500 });
+    await expect(fetcher.post(LOG_URL, {}, 1, 1)).rejects.toThrow();
+    // More attempts than the failure threshold
+    expect(requestTimes.length).toBeGreaterThan(2);
+
+    responses = [];
+    await expect(fetcher.post(LOG_URL, {})).resolves.toBeTruthy();
+    expect(logMarker).not.toHaveBeenCalled();
+    fetcher.shutdown();
+  });
+
+  it('frees the probe when a request fails before it is sent', async () => {
+    const fetcher = makeFetcher({ circuitBreakerCooldownMs: 0 });
+    responses = [{ status: 500 }, { status: 500 }];
+    await expect(fetcher.post(LOG_URL, {})).rejects.toThrow();
+    await expect(fetcher.post(LOG_URL, {})).rejects.toThrow();
+
+    const circular: Record<string, unknown> = {};
+    circular['self'] = circular;
+    await expect(fetcher.post(LOG_URL, circular)).rejects.toThrow(
+      'circular structure',
+    );
+    await expect(fetcher.post(LOG_URL, {})).resolves.toBeTruthy();
+    expect(markerStates().map(([, state]) => state)).toEqual([
+      'open',
+      'half_open',
+      'closed',
+    ]);
+    fetcher.shutdown();
+  });
+
+  it('caps long Retry-After values', async () => {
+    const fetcher = makeFetcher({ circuitBreakerFailureThreshold: 0 });
+    responses = [{ status: 429, headers: { 'retry-after': '86400' } }];
+    await expect(fetcher.post(LOG_URL, {})).rejects.toThrow();
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 4 * 60 * 1000);
+    await expect(fetcher.post(LOG_URL, {})).rejects.toBeInstanceOf(
+      StatsigCircuitOpenError,
+    );
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 5 * 60 * 1000 + 1);
+    await expect(fetcher.post(LOG_URL, {})).resolves.toBeTruthy();
+    fetcher.shutdown();
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  AdapterResponse,
+  DataAdapterKey,
+  IDataAdapter,
+} from '../interfaces/IDataAdapter';
+import CompactIDSet from '../utils/CompactIDSet';
+import { hashUnitIDForIDList } from '../utils/Hashing';
+import IDListUtil, { IDList } from '../utils/IDListUtil';
+
+function hashedIDs(count: number): string[] {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    ids.push(hashUnitIDForIDList(`user-${i}`));
+  }
+  return ids;
+}
+
+describe('compact ID list storage', () => {
+  it('packs hashed IDs and unpacks them unchanged', () => {
+    const ids = hashedIDs(100).concat(['AAAAAAAA', '////////', '+/+/+/+/']);
+    const set = CompactIDSet.fromIDs(ids);
+
+    expect(set.size()).toBe(new Set(ids).size);
+    expect(set.toArray().sort()).toEqual(Array.from(new Set(ids)).sort());
+    ids.forEach((id) => expect(set.has(id)).toBe(true));
+    expect(set.has(hashUnitIDForIDList('someone-else'))).toBe(false);
+  });
+
+  it('keeps IDs that are not packable as strings', () => {
+    const set = CompactIDSet.fromIDs(['1', 'not-base64', 'a_b-c_d-']);
+
+    expect(set.has('1')).toBe(true);
+    expect(set.has('a_b-c_d-')).toBe(true);
+    set.delete('1');
+    expect(set.toArray().sort()).toEqual(['a_b-c_d-', 'not-base64']);
+  });
+
+  it('applies additions and removals before and after compaction', () => {
+    const ids = hashedIDs(5000);
+    const set = new CompactIDSet();
+    ids.forEach((id) => set.add(id));
+    ids.slice(0, 2000).forEach((id) => set.delete(id));
+    // Removing and re-adding a compacted entry
+    set.delete(ids[4000]);
+    expect(set.has(ids[4000])).toBe(false);
+    set.add(ids[4000]);
+
+    expect(set.size()).toBe(new Set(ids.slice(2000)).size);
+    expect(set.has(ids[0])).toBe(false);
+    expect(set.has(ids[4000])).toBe(true);
+    set.compact();
+    expect(set.has(ids[1999])).toBe(false);
+    expect(set.has(ids[2000])).toBe(true);
+    expect(set.toArray().sort()).toEqual(
+      Array.from(new Set(ids.slice(2000))).sort(),
+    );
+  });
+
+  it('takes 8 bytes an entry once compacted', () => {
+    const ids = hashedIDs(100000);
+    const set = CompactIDSet.fromIDs(ids);
+
+    expect(set.getByteSize()).toBe(set.size() * 8);
+  });
+});
+
+describe('saving ID lists to a data adapter', () => {
+  let values: Record<string, string>;
+  let writes: string[];
+
+  const adapter: IDataAdapter = {
+    get: async (key: string): Promise<AdapterResponse> => ({
+      result: values[key],
+    }),
+    set: async (key: string, value: string) => {
+      writes.push(`set ${key}`);
+      values[key] = value;
+    },
+    append: async (key: string, value: string) => {
+      writes.push(`append ${key}`);
+      values[key] = (values[key] ?? '') + value;
+    },
+    initialize: async () => {},
+    shutdown: async () => {},
+  };
+
+  function makeList(ids: string[]): IDList {
+    return {
+      ids: CompactIDSet.fromIDs(ids),
+      readBytes: 0,
+      url: 'https://id_list_content/list',
+      fileID: 'file',
+      creationTime: 1,
+    };
+  }
+
+  beforeEach(() => {
+    values = {};
+    writes = [];
+  });
+
+  it('appends only the downloaded changes', async () => {
+    const lists = { list_1: makeList(['a', 'b']), list_2: makeList(['c']) };
+    await IDListUtil.saveToDataAdapter(adapter, lists);
+    expect(values['statsig.id_lists::list_1']).toBe('+a\n+b\n');
+
+    writes = [];
+    IDListUtil.updateIdList(lists, 'list_1', '-a\n+d');
+    await IDListUtil.saveToDataAdapter(adapter, lists, {
+      list_1: { data: '-a\n+d', reset: false },
+    });
+
+    expect(writes).toEqual([
+      'append statsig.id_lists::list_1',
+      `set ${DataAdapterKey.IDLists}`,
+    ]);
+    expect(values['statsig.id_lists::list_1']).toBe('+a\n+b\n-a\n+d\n');
+    const restored = { list_1: makeList([]) };
+    IDListUtil.updateIdList(
+      restored,
+      'list_1',
+      values['statsig.id_lists::list_1'],
+    );
+    expect(restored.list_1.ids.toArray().sort()).toEqual(['b', 'd']);
+  });
+
+  it('rewrites lists that were started over', async () => {
+    const lists = { list_1: makeList(['e']) };
+    await IDListUtil.saveToDataAdapter(adapter, lists, {
+      list_1: { data: '+e\n', reset: true },
+    });
+
+    expect(writes).toEqual([
+      'set statsig.id_lists::list_1',
+      `set ${DataAdapterKey.IDLists}`,
+    ]);
+    expect(values['statsig.id_lists::list_1']).toBe('+e\n');
+  });
+
+  it('saves changed lists in full without append support', async () => {
+    const { append, ...withoutAppend } = adapter;
+    const lists = { list_1: makeList(['a', 'b']), list_2: makeList(['c']) };
+    await IDListUtil.saveToDataAdapter(withoutAppend, lists, {
+      list_1: { data: '+b\n', reset: false },
+    });
+
+    expect(writes).toEqual([
+      'set statsig.id_lists::list_1',
+      `set ${DataAdapterKey.IDLists}`,
+    ]);
+    expect(values['statsig.id_lists::list_1']).toBe('+a\n+b\n');
+  });
+});
@@ -0,0 +1,107 @@
+import Statsig from '../index';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const CONFIG_SPEC_RESPONSE = makeConfigSpecResponse({ time: 1000 });
+
+type MockResponse = {
+  status: number;
+  body?: string;
+  etag?: string;
+};
+
+describe('conditional config spec requests', () => {
+  let responses: MockResponse[] = [];
+  let ifNoneMatch: (string | undefined)[] = [];
+
+  beforeEach(async () => {
+    responses = [];
+    ifNoneMatch = [];
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string, params) => {
+      if (!url.includes('download_config_specs')) {
+        return Promise.resolve({ ok: true, status: 200 });
+      }
+      ifNoneMatch.push(params.headers['If-None-Match']);
+      const response = responses.shift() ?? { status: 304 };
+      return Promise.resolve({
+        ok: response.status >= 200 && response.status < 300,
+        status: response.status,
+        headers: {
+          get: (name: string) =>
+            name === 'etag' ? (response.etag ?? null) : null,
+        },
+        text: () =>
+          response.body != null
+            ? Promise.resolve(response.body)
+            : Promise.reject(new Error('The body should not be read')),
+      });
+    });
+
+    responses = [{ status: 200, body: CONFIG_SPEC_RESPONSE, etag: '"v1"' }];
+    await StatsigTestUtils.initialize({
+      initStrategyForIDLists: 'none',
+      disableIdListsSync: true,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+  });
+
+  function specStore() {
+    return StatsigTestUtils.getEvaluator().store;
+  }
+
+  it('sends the last ETag and treats 304 as no updates', async () => {
+    const process = jest.spyOn(specStore(), '_process');
+    responses = [{ status: 304 }];
+    await specStore().syncValues();
+
+    expect(ifNoneMatch).toEqual([undefined, '"v1"']);
+    expect(process).not.toHaveBeenCalled();
+    expect(specStore().getLastUpdateTime()).toBe(1000);
+    expect(
+      await Statsig.checkGate({ userID: 'a', email: 'a@nfl.com' }, 'nfl_gate'),
+    ).toBe(true);
+  });
+
+  it('skips processing a payload identical to the last one', async () => {
+    const process = jest.spyOn(specStore(), '_process');
+    responses = [{ status: 200, body: CONFIG_SPEC_RESPONSE }];
+    await specStore().syncValues();
+    expect(process).not.toHaveBeenCalled();
+
+    const updated = makeConfigSpecResponse({ time: 2000 });
+    responses = [{ status: 200, body: updated, etag: '"v2"' }];
+    await specStore().syncValues();
+    await specStore().syncValues();
+
+    expect(process).toHaveBeenCalledTimes(1);
+    expect(specStore().getLastUpdateTime()).toBe(2000);
+    expect(ifNoneMatch).toEqual([undefined, '"v1"', '"v1"', '"v2"']);
+  });
+
+  it('keeps the last ETag and hash when a payload fails to apply', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const invalid = makeConfigSpecResponse({
+      time: 2000,
+      feature_gates: 'invalid',
+    });
+    responses = [
+      { status: 200, body: '{"time": 2000', etag: '"v2"' },
+      { status: 200, body: invalid, etag: '"v2"' },
+      { status: 200, body: invalid, etag: '"v2"' },
+    ];
+    const process = jest.spyOn(specStore(), '_process');
+    await specStore().syncValues();
+    await specStore().syncValues();
+    await specStore().syncValues();
+
+    expect(ifNoneMatch).toEqual([undefined, '"v1"', '"v1"', '"v1"']);
+    expect(process).toHaveBeenCalledTimes(2);
+    expect(specStore().getLastUpdateTime()).toBe(1000);
+  });
+});
@@ -102,6 +102,12 @@ describe('ConfigSyncDiagnostics', () => {
         rulesetsSyncIntervalMs: 100,
         disableDiagnostics: disableDiagnostics,
       });
+      // An unchanged payload would not be processed again
+      const updatedResponse = { ...jsonResponse, time: jsonResponse.time + 1 };
+      downloadConfigSpecsResponse = {
+        ...downloadConfigSpecsResponse,
+        text: () => Promise.resolve(JSON.stringify(updatedResponse)),
+      };
       await runSync('getConfigSpecs');
       Statsig.shutdown();
       events = events.filter((e) => e['metadata']['context'] !== 'initialize');
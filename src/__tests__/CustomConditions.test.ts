@@ -0,0 +1,170 @@
+import Statsig from '../index';
+import { StatsigOptions } from '../StatsigOptions';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+function makeGate(
+  name: string,
+  condition: Record<string, unknown>,
+): Record<string, unknown> {
+  return {
+    name,
+    type: 'feature_gate',
+    salt: 'na',
+    defaultValue: false,
+    enabled: true,
+    entity: 'feature_gate',
+    rules: [
+      {
+        name: 'custom rule',
+        groupName: 'custom_group',
+        id: `${name}_rule`,
+        passPercentage: 100,
+        conditions: [condition],
+        returnValue: true,
+      },
+    ],
+  };
+}
+
+const CONFIG_SPEC_RESPONSE = makeConfigSpecResponse({
+  feature_gates: [
+    makeGate('tier_gate', {
+      type: 'tenant_tier',
+      targetValue: ['gold', 'platinum'],
+      operator: 'any',
+      field: null,
+    }),
+    makeGate('decided_gate', {
+      type: 'Tenant_Flag',
+      targetValue: null,
+      operator: null,
+      field: 'beta',
+    }),
+    makeGate('custom_op_gate', {
+      type: 'user_field',
+      targetValue: 3,
+      operator: 'divisible_by',
+      field: 'seats',
+    }),
+    makeGate('unknown_type_gate', {
+      type: 'not_registered',
+      targetValue: null,
+      operator: 'eq',
+      field: null,
+    }),
+    makeGate('unknown_op_gate', {
+      type: 'user_field',
+      targetValue: 1,
+      operator: 'not_registered',
+      field: 'seats',
+    }),
+    makeGate('throwing_gate', {
+      type: 'throws',
+      targetValue: null,
+      operator: 'eq',
+      field: null,
+    }),
+  ],
+});
+
+const TIERS: Record<string, string> = {
+  'user-gold': 'gold',
+  'user-bronze': 'bronze',
+};
+
+const options: StatsigOptions = {
+  customConditionEvaluators: {
+    tenant_tier: (user) => ({
+      value: TIERS[user.userID ?? ''] ?? null,
+      secondaryExposures: [
+        { gate: 'tenant_tier_lookup', gateValue: 'true', ruleID: 'tier' },
+      ],
+    }),
+    tenant_flag: (user, condition) => ({
+      passes: user.custom?.[condition.field] === true,
+    }),
+    throws: () => {
+      throw new Error('boom');
+    },
+  },
+  customOperators: {
+    DIVISIBLE_BY: (value, target) => Number(value) % Number(target) === 0,
+  },
+};
+
+describe('Custom condition evaluators and operators', () => {
+  beforeEach(async () => {
+    StatsigTestUtils.mockNetwork(CONFIG_SPEC_RESPONSE);
+    await StatsigTestUtils.initialize(options);
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('compares custom values with built-in operators', () => {
+    const gold = Statsig.getFeatureGateWithExposureLoggingDisabledSync(
+      { userID: 'user-gold' },
+      'tier_gate',
+    );
+    expect(gold.value).toBe(true);
+    expect(gold.ruleID).toBe('tier_gate_rule');
+    expect(gold.secondaryExposures).toEqual([
+      { gate: 'tenant_tier_lookup', gateValue: 'true', ruleID: 'tier' },
+    ]);
+
+    const bronze = Statsig.getFeatureGateWithExposureLoggingDisabledSync(
+      { userID: 'user-bronze' },
+      'tier_gate',
+    );
+    expect(bronze.value).toBe(false);
+    expect(
+      Statsig.explainGate({ userID: 'user-bronze' }, 'tier_gate')
+        ?.evaluationDetails?.reason,
+    ).toBe('Network');
+  });
+
+  it('lets a custom evaluator decide the condition directly', () => {
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(
+        { userID: 'a', custom: { beta: true } },
+        'decided_gate',
+      ),
+    ).toBe(true);
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(
+        { userID: 'a' },
+        'decided_gate',
+      ),
+    ).toBe(false);
+  });
+
+  it('applies custom operators', () => {
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(
+        { userID: 'a', custom: { seats: 9 } },
+        'custom_op_gate',
+      ),
+    ).toBe(true);
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(
+        { userID: 'a', custom: { seats: 10 } },
+        'custom_op_gate',
+      ),
+    ).toBe(false);
+  });
+
+  it.each(['unknown_type_gate', 'unknown_op_gate', 'throwing_gate'])(
+    'treats %s as unsupported',
+    (gateName) => {
+      const explanation = Statsig.explainGate(
+        { userID: 'a', custom: { seats: 1 } },
+        gateName,
+      );
+      expect(explanation?.value).toBe(false);
+      expect(explanation?.evaluationDetails?.reason).toBe('Unsupported');
+    },
+  );
+});
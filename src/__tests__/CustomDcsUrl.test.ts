@@ -38,6 +38,7 @@ describe('Check custom DCS url', () => {
       expect.anything(),
       expect.anything(),
       expect.anything(),
+      expect.objectContaining({ timeoutMs: 30000 }),
     );
     expect(spy).not.toHaveBeenCalledWith(
       customUrl + '/get_id_lists',
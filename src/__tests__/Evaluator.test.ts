@@ -3,8 +3,11 @@ import { ConfigCondition, ConfigSpec } from '../ConfigSpec';
 import Diagnostics from '../Diagnostics';
 import Evaluator from '../Evaluator';
 import LogEventProcessor from '../LogEventProcessor';
+import { compileCondition } from '../SpecCompiler';
 import SpecStore from '../SpecStore';
 import { OptionsWithDefaults } from '../StatsigOptions';
+import { StatsigUser } from '../StatsigUser';
+import CompactIDSet from '../utils/CompactIDSet';
 import StatsigFetcher from '../utils/StatsigFetcher';
 const exampleConfigSpecs = require('./jest.setup');
 
@@ -240,7 +243,7 @@ describe('Test condition evaluation', () => {
     ['user_field', 'eq', null, 'nullable', { custom: {} }, true],
     ['user_field', 'eq', null, 'nullable', { custom: { nullable: null } }, true],
     ['user_field', 'eq', null, 'nullable', { custom: { nullable: 'sth' } }, false],
-  ]
+  ];
 
   const fetcher = new StatsigFetcher('secret-123', OptionsWithDefaults({}));
   const mockedEvaluator = new Evaluator(
@@ -270,7 +273,7 @@ describe('Test condition evaluation', () => {
   const disabledGateSpec = new ConfigSpec(exampleConfigSpecs.disabled_gate);
   const dynamicConfigSpec = new ConfigSpec(exampleConfigSpecs.config);
 
-  it('works', () => {
+  function useStoreWithIDList() {
     const network = new StatsigFetcher('secret-123', OptionsWithDefaults({}));
     const store = new SpecStore(
       'secret-123',
@@ -280,11 +283,17 @@ describe('Test condition evaluation', () => {
     // @ts-ignore
     store.store = {
       // @ts-ignore
-      idLists: { list_1: { ids: { '7NRRgkdK': true, pmWkWSBC: true } } },
+      idLists: {
+        list_1: { ids: CompactIDSet.fromIDs(['7NRRgkdK', 'pmWkWSBC']) },
+      },
       configs: {},
     };
     // @ts-ignore
     mockedEvaluator.store = store;
+  }
+
+  it('works', () => {
+    useStoreWithIDList();
     params.forEach(
       ([
         type,
@@ -338,6 +347,41 @@ describe('Test condition evaluation', () => {
     );
   });
 
+  it('evaluates compiled conditions the same as uncompiled ones', () => {
+    useStoreWithIDList();
+
+    // every condition is checked against every user in the fixtures
+    const users = params.map((param) => param[4] as StatsigUser);
+    params.forEach(
+      ([type, operator, targetValue, field, _, __, additional]) => {
+        const json: Record<string, unknown> = {
+          type,
+          operator,
+          targetValue,
+          field,
+          additionalValues: additional,
+        };
+        if (type === 'unit_id') {
+          json.idType = json.field;
+          json.field = null;
+        }
+        const interpreted = new ConfigCondition(json);
+        const compiled = new ConfigCondition(json);
+        expect(compileCondition(compiled)).not.toBeNull();
+
+        users.forEach((user) => {
+          const expected = mockedEvaluator._evalCondition(user, interpreted);
+          const actual = mockedEvaluator._evalCondition(user, compiled);
+          expect({
+            condition: json,
+            user,
+            result: actual,
+          }).toEqual({ condition: json, user, result: expected });
+        });
+      },
+    );
+  });
+
   it('evals gates correctly', () => {
     expect(mockedEvaluator._eval({}, gateSpec)).toEqual(
       new ConfigEvaluation(false, 'default', null, [], {}),
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import Statsig from '../index';
+import {
+  NDJSONFileEventExporter,
+  StdoutEventExporter,
+} from '../EventExporters';
+import { IEventExporter } from '../interfaces/IEventExporter';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const user = { userID: 'a-user' };
+
+describe('eventExporters', () => {
+  let uploadedEvents: LogEventData[] = [];
+  let directory: string;
+
+  beforeEach(() => {
+    uploadedEvents = StatsigTestUtils.mockNetwork();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'statsig-exporters-'));
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('sends each flushed batch to the built-in exporters', async () => {
+    const filePath = path.join(directory, 'events.ndjson');
+    const stream = new PassThrough();
+    let streamed = '';
+    stream.on('data', (chunk) => (streamed += String(chunk)));
+
+    await StatsigTestUtils.initialize({
+      eventExporters: [
+        new NDJSONFileEventExporter(filePath),
+        new StdoutEventExporter(stream),
+      ],
+    });
+    Statsig.logEvent(user, 'first_event', 1);
+    Statsig.logEvent(user, 'second_event', 'two');
+    await Statsig.flush();
+    Statsig.logEvent(user, 'third_event');
+    await Statsig.flush();
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).eventName)).toEqual([
+      'first_event',
+      'second_event',
+      'third_event',
+    ]);
+    expect(JSON.parse(lines[0]).value).toEqual(1);
+    expect(
+      streamed
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line)),
+    ).toEqual(lines.map((line) => JSON.parse(line)));
+    expect(uploadedEvents.map((event) => event.eventName)).toEqual([
+      'first_event',
+      'second_event',
+      'third_event',
+    ]);
+  });
+
+  it('retries a failing exporter without affecting the others', async () => {
+    const received: string[] = [];
+    let attempts = 0;
+    const flaky: IEventExporter = {
+      retryLimit: 2,
+      retryBackoffMs: 1,
+      export: (events) => {
+        attempts++;
+        if (attempts < 3) {
+          return Promise.reject(new Error('warehouse unavailable'));
+        }
+        events.forEach((event) => received.push(event.eventName));
+        return Promise.resolve();
+      },
+    };
+    const broken: IEventExporter = {
+      retryLimit: 1,
+      retryBackoffMs: 1,
+      export: () => {
+        throw new Error('broken exporter');
+      },
+    };
+    const healthy = { export: jest.fn(() => Promise.resolve()) };
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await StatsigTestUtils.initialize({
+      eventExporters: [broken, flaky, healthy],
+    });
+    Statsig.logEvent(user, 'an_event');
+    await Statsig.flush();
+    // Retries continue after flush returns
+    await StatsigTestUtils.waitFor(
+      () => attempts === 3 && errorSpy.mock.calls.length === 1,
+    );
+
+    expect(received).toEqual(['an_event']);
+    expect(healthy.export).toHaveBeenCalledTimes(1);
+    expect(uploadedEvents.map((event) => event.eventName)).toEqual([
+      'an_event',
+    ]);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'statsigSDK> Failed to export events',
+      new Error('broken exporter'),
+    );
+    errorSpy.mockRestore();
+  });
+
+  it('still exports when the upload fails', async () => {
+    const fetch = require('node-fetch');
+    fetch.mockImplementation(() => Promise.reject(new Error('offline')));
+    const exporter = { export: jest.fn(() => Promise.resolve()) };
+
+    await StatsigTestUtils.initialize({
+      postLogsRetryLimit: 0,
+      eventExporters: [exporter],
+    });
+    Statsig.logEvent(user, 'an_event');
+    await Statsig.flush();
+
+    expect(exporter.export).toHaveBeenCalledTimes(1);
+    expect(exporter.export.mock.calls[0][0][0].eventName).toEqual('an_event');
+  });
+
+  it('gives up on an exporter that never settles', async () => {
+    const stuck: IEventExporter = {
+      timeoutMs: 20,
+      export: () => new Promise(() => {}),
+      shutdown: () => new Promise(() => {}),
+    };
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await StatsigTestUtils.initialize({
+      eventExporters: [stuck],
+    });
+    Statsig.logEvent(user, 'an_event');
+    await Statsig.flush();
+    await StatsigTestUtils.getLogger().shutdown();
+
+    expect(uploadedEvents.map((event) => event.eventName)).toEqual([
+      'an_event',
+    ]);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'statsigSDK> Failed to export events',
+      new Error('Export timed out after 20ms'),
+    );
+    expect(errorSpy).toHaveBeenCalledWith(
+      'statsigSDK> Event exporter shutdown timed out',
+      new Error('Export timed out after 20ms'),
+    );
+    errorSpy.mockRestore();
+  });
+
+  it('does not hold up flush with a hanging exporter', async () => {
+    const hanging: IEventExporter = {
+      export: () => new Promise(() => {}),
+    };
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await StatsigTestUtils.initialize({
+      logEventTimeoutMs: 60 * 1000,
+      eventExporters: [hanging],
+    });
+    Statsig.logEvent(user, 'an_event');
+    const start = Date.now();
+    await Statsig.flush();
+
+    // Bounded by the 5 second export default, not logEventTimeoutMs
+    expect(Date.now() - start).toBeLessThan(6000);
+    expect(uploadedEvents.map((event) => event.eventName)).toEqual([
+      'an_event',
+    ]);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'statsigSDK> Failed to export events',
+      new Error('Export timed out after 5000ms'),
+    );
+    errorSpy.mockRestore();
+  }, 10000);
+
+  it('does not wait out exporter retries in flush and shutdown', async () => {
+    let attempts = 0;
+    const failing: IEventExporter = {
+      retryLimit: 3,
+      retryBackoffMs: 60 * 1000,
+      export: () => {
+        attempts++;
+        return Promise.reject(new Error('warehouse unavailable'));
+      },
+    };
+
+    await StatsigTestUtils.initialize({
+      eventExporters: [failing],
+    });
+    Statsig.logEvent(user, 'an_event');
+    const start = Date.now();
+    await Statsig.flush();
+    await StatsigTestUtils.getLogger().shutdown();
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,103 @@
+import Statsig, { StatsigOptions } from '../index';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+describe('eventSampling', () => {
+  let events: LogEventData[] = [];
+
+  function initialize(eventSampling: StatsigOptions['eventSampling']) {
+    return StatsigTestUtils.initialize({ eventSampling });
+  }
+
+  function eventsNamed(name: string): LogEventData[] {
+    return events.filter((event) => event.eventName === name);
+  }
+
+  beforeEach(() => {
+    events = StatsigTestUtils.mockNetwork();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+  });
+
+  it('samples at a fixed rate and stamps the rate on kept events', async () => {
+    await initialize({ page_view: { rate: 0.25 } });
+    const random = jest.spyOn(Math, 'random');
+    [0.1, 0.3, 0.2, 0.9].forEach((value) => random.mockReturnValueOnce(value));
+
+    for (let i = 0; i < 4; i++) {
+      Statsig.logEvent({ userID: 'user_' + i }, 'page_view', null, {
+        page: String(i),
+      });
+    }
+    Statsig.logEvent({ userID: 'a' }, 'purchase');
+    await Statsig.flush();
+
+    expect(eventsNamed('page_view').map((event) => event.metadata)).toEqual([
+      { page: '0', samplingRate: 0.25 },
+      { page: '2', samplingRate: 0.25 },
+    ]);
+    expect(eventsNamed('purchase')[0].metadata).toBeNull();
+  });
+
+  it('samples deterministically by unit ID', async () => {
+    await initialize({
+      page_view: { rate: 0.3, strategy: 'unit_id' },
+      click: { rate: 0.3, strategy: 'unit_id', idType: 'companyID' },
+    });
+
+    for (let round = 0; round < 2; round++) {
+      for (let i = 0; i < 500; i++) {
+        Statsig.logEvent({ userID: 'user_' + i }, 'page_view');
+        Statsig.logEvent(
+          { userID: 'user', customIDs: { companyID: 'company_' + i } },
+          'click',
+        );
+      }
+    }
+    await Statsig.flush();
+
+    const keptUsers = eventsNamed('page_view').map(
+      (event) => event.user?.userID,
+    );
+    const uniqueUsers = new Set(keptUsers);
+    // Each unit is either kept in both rounds or in neither
+    expect(keptUsers.length).toBe(uniqueUsers.size * 2);
+    expect(uniqueUsers.size).toBeGreaterThan(100);
+    expect(uniqueUsers.size).toBeLessThan(200);
+
+    const keptCompanies = new Set(
+      eventsNamed('click').map((event) => event.user?.customIDs?.companyID),
+    );
+    expect(eventsNamed('click').length).toBe(keptCompanies.size * 2);
+    expect(keptCompanies.size).toBeGreaterThan(100);
+    expect(keptCompanies.size).toBeLessThan(200);
+    expect(eventsNamed('click')[0].metadata).toEqual({ samplingRate: 0.3 });
+  });
+
+  it('leaves exposures unsampled unless they are named', async () => {
+    const user = { userID: 'a', email: 'a@nfl.com' };
+    await initialize({ page_view: { rate: 0 } });
+    await Statsig.checkGate(user, 'nfl_gate');
+    Statsig.logEvent(user, 'page_view');
+    await Statsig.flush();
+
+    expect(eventsNamed('statsig::gate_exposure').length).toBe(1);
+    expect(
+      eventsNamed('statsig::gate_exposure')[0].metadata,
+    ).not.toHaveProperty('samplingRate');
+    expect(eventsNamed('page_view')).toEqual([]);
+
+    Statsig.shutdown();
+    events.length = 0;
+    await initialize({ 'statsig::gate_exposure': { rate: 0 } });
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.flush();
+
+    expect(eventsNamed('statsig::gate_exposure')).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import Statsig from '../index';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+const exampleConfigSpecs = require('./jest.setup');
+
+jest.mock('node-fetch', () => jest.fn());
+
+const gateWithPassGate = {
+  name: 'gate_with_pass_gate',
+  type: 'feature_gate',
+  salt: 'na',
+  defaultValue: false,
+  enabled: true,
+  entity: 'feature_gate',
+  rules: [
+    {
+      name: 'nfl employees',
+      groupName: 'nfl_employees',
+      id: 'rule_id_pass_gate',
+      passPercentage: 100,
+      conditions: [
+        {
+          type: 'pass_gate',
+          targetValue: exampleConfigSpecs.gate.name,
+          operator: null,
+          field: null,
+        },
+        {
+          type: 'user_field',
+          targetValue: 5,
+          operator: 'gte',
+          field: 'level',
+        },
+      ],
+      returnValue: true,
+    },
+  ],
+};
+
+const CONFIG_SPEC_RESPONSE = makeConfigSpecResponse({
+  feature_gates: [
+    exampleConfigSpecs.gate,
+    exampleConfigSpecs.half_pass_gate,
+    gateWithPassGate,
+  ],
+  layer_configs: [exampleConfigSpecs.allocated_layer],
+});
+
+describe('Explain evaluations', () => {
+  let events: LogEventData[] = [];
+
+  beforeEach(async () => {
+    events = StatsigTestUtils.mockNetwork(CONFIG_SPEC_RESPONSE);
+    await StatsigTestUtils.initialize();
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('traces conditions and nested gate checks', async () => {
+    const explanation = Statsig.explainGate(
+      { userID: 'a-user', email: 'someone@nfl.com', custom: { level: 7 } },
+      'gate_with_pass_gate',
+    );
+
+    expect(explanation?.value).toBe(true);
+    expect(explanation?.ruleID).toBe('rule_id_pass_gate');
+    expect(explanation?.evaluationDetails?.reason).toBe('Network');
+
+    const trace = explanation?.trace;
+    expect(trace?.name).toBe('gate_with_pass_gate');
+    expect(trace?.result).toEqual({
+      value: true,
+      ruleID: 'rule_id_pass_gate',
+      groupName: 'nfl_employees',
+      unsupported: false,
+    });
+    expect(trace?.rules.length).toBe(1);
+
+    const rule = trace!.rules[0];
+    expect(rule.passes).toBe(true);
+    expect(rule.passPercentage?.threshold).toBe(10000);
+    expect(rule.passPercentage?.passes).toBe(true);
+    expect(rule.conditions.length).toBe(2);
+
+    const [passGate, levelCheck] = rule.conditions;
+    expect(passGate.type).toBe('pass_gate');
+    expect(passGate.value).toBe(true);
+    expect(passGate.passes).toBe(true);
+    expect(passGate.gateChecks.length).toBe(1);
+    expect(passGate.gateChecks[0].name).toBe('nfl_gate');
+    expect(passGate.gateChecks[0].rules[0].conditions[0]).toMatchObject({
+      type: 'user_field',
+      operator: 'str_contains_any',
+      field: 'email',
+      value: 'someone@nfl.com',
+      passes: true,
+    });
+
+    expect(levelCheck).toMatchObject({
+      type: 'user_field',
+      operator: 'gte',
+      field: 'level',
+      targetValue: 5,
+      value: 7,
+      passes: true,
+      unsupported: false,
+      gateChecks: [],
+    });
+  });
+
+  it('reports the pass percentage bucket', async () => {
+    const explanation = Statsig.explainGate(
+      { userID: 'a-user', email: 'someone@nfl.com' },
+      'nfl_gate2',
+    );
+    const passPercentage = explanation?.trace?.rules[0].passPercentage;
+    expect(passPercentage?.threshold).toBe(5000);
+    expect(passPercentage?.bucket).toBeGreaterThanOrEqual(0);
+    expect(passPercentage?.bucket).toBeLessThan(10000);
+    expect(passPercentage?.passes).toBe((passPercentage?.bucket ?? 0) < 5000);
+    expect(explanation?.value).toBe(passPercentage?.passes);
+  });
+
+  it('traces every rule visited by a config', async () => {
+    const explanation = Statsig.explainConfig(
+      { userID: 'a-user', custom: { level: 3 } },
+      'teams',
+    );
+    expect(explanation?.ruleID).toBe('rule_id_config_public');
+    expect(explanation?.trace?.rules.map((rule) => rule.passes)).toEqual([
+      false,
+      true,
+    ]);
+    expect(explanation?.trace?.rules[0].passPercentage).toBeNull();
+  });
+
+  it('traces delegate hops of a layer', async () => {
+    const explanation = Statsig.explainLayer(
+      { userID: 'a-user', custom: { level: 10 } },
+      'allocated_layer',
+    );
+    const rule = explanation?.trace?.rules[0];
+    expect(rule?.conditions[0].type).toBe('user_bucket');
+    expect(typeof rule?.conditions[0].value).toBe('number');
+    expect(rule?.delegate?.name).toBe('teams');
+    expect(rule?.delegate?.result?.ruleID).toBe('rule_id_config');
+    expect(explanation?.ruleID).toBe('rule_id_config');
+  });
+
+  it('returns no trace for overridden values', async () => {
+    Statsig.overrideGate('nfl_gate', true);
+    const explanation = Statsig.explainGate({ userID: 'a-user' }, 'nfl_gate');
+    expect(explanation?.value).toBe(true);
+    expect(explanation?.evaluationDetails?.reason).toBe('LocalOverride');
+    expect(explanation?.trace).toBeNull();
+  });
+
+  it('does not log exposures', async () => {
+    Statsig.explainGate({ userID: 'a-user' }, 'gate_with_pass_gate');
+    Statsig.explainConfig({ userID: 'a-user' }, 'teams');
+    Statsig.explainLayer({ userID: 'a-user' }, 'allocated_layer');
+    await Statsig.flush();
+    expect(events).toEqual([]);
+  });
+
+  it('throws when the name is invalid', () => {
+    expect(() => Statsig.explainGate({ userID: 'a-user' }, '')).toThrow(
+      'Lookup key must be a non-empty string',
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import Statsig, { StatsigUser } from '../index';
+import ConfigEvaluation from '../ConfigEvaluation';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const exampleConfigSpecs = require('./jest.setup');
+
+const CONFIG_SPEC_RESPONSE = makeConfigSpecResponse({
+  layer_configs: [
+    {
+      ...exampleConfigSpecs.unallocated_layer,
+      defaultValue: { b_param: 'b', c_param: 'c' },
+    },
+  ],
+});
+
+function makeUser(userID: string): StatsigUser {
+  return { userID, email: userID + '@nfl.com' };
+}
+
+describe('exposure dedupe', () => {
+  let events: LogEventData[] = [];
+
+  function exposures(): LogEventData[] {
+    return events.filter((event) => event.eventName.endsWith('_exposure'));
+  }
+
+  beforeEach(() => {
+    events = StatsigTestUtils.mockNetwork(CONFIG_SPEC_RESPONSE);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+  });
+
+  it('suppresses repeated exposures and reports how many', async () => {
+    await StatsigTestUtils.initialize();
+    const user = makeUser('a');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.flush();
+
+    expect(exposures().length).toBe(1);
+    expect(Statsig.getSuppressedExposureCounts()).toEqual({
+      gate_exposure: 2,
+    });
+
+    await Statsig.checkGate(user, 'nfl_gate');
+    expect(Statsig.getSuppressedExposureCounts()).toEqual({
+      gate_exposure: 3,
+    });
+  });
+
+  it('does not confuse values that contain separators', async () => {
+    await StatsigTestUtils.initialize();
+    await Statsig.checkGate(
+      { userID: 'a', email: 'a@nfl.com', customIDs: { companyID: 'x,y' } },
+      'nfl_gate',
+    );
+    await Statsig.checkGate(
+      {
+        userID: 'a',
+        email: 'a@nfl.com',
+        customIDs: { companyID: 'x', teamID: 'y' },
+      },
+      'nfl_gate',
+    );
+    await Statsig.flush();
+
+    expect(exposures().length).toBe(2);
+  });
+
+  it('logs again once the window has passed', async () => {
+    await StatsigTestUtils.initialize({ exposureDedupeWindowMs: 100 });
+    const user = makeUser('a');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.flush();
+
+    expect(exposures().length).toBe(2);
+  });
+
+  it('can be disabled with a zero window', async () => {
+    await StatsigTestUtils.initialize({ exposureDedupeWindowMs: 0 });
+    const user = makeUser('a');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.flush();
+
+    expect(exposures().length).toBe(2);
+    expect(Statsig.getSuppressedExposureCounts()).toEqual({});
+  });
+
+  it('evicts the least recently seen keys past maxKeys', async () => {
+    await StatsigTestUtils.initialize({ exposureDedupeMaxKeys: 2 });
+    await Statsig.checkGate(makeUser('a'), 'nfl_gate');
+    await Statsig.checkGate(makeUser('b'), 'nfl_gate');
+    await Statsig.checkGate(makeUser('a'), 'nfl_gate');
+    await Statsig.checkGate(makeUser('c'), 'nfl_gate');
+    // 'b' was evicted, 'a' was kept since it was seen more recently
+    await Statsig.checkGate(makeUser('b'), 'nfl_gate');
+    await Statsig.checkGate(makeUser('c'), 'nfl_gate');
+    await Statsig.flush();
+
+    expect(exposures().map((event) => event.user?.userID)).toEqual([
+      'a',
+      'b',
+      'c',
+      'b',
+    ]);
+  });
+
+  it('dedupes per assignment with the assignment strategy', async () => {
+    const user = makeUser('a');
+    await StatsigTestUtils.initialize();
+    let layer = await Statsig.getLayer(user, 'unallocated_layer');
+    layer.get('b_param', '');
+    layer.get('c_param', '');
+    await Statsig.flush();
+    expect(exposures().length).toBe(2);
+
+    Statsig.shutdown();
+    events.length = 0;
+    await StatsigTestUtils.initialize({ exposureDedupeStrategy: 'assignment' });
+    layer = await Statsig.getLayer(user, 'unallocated_layer');
+    layer.get('b_param', '');
+    layer.get('c_param', '');
+    await Statsig.checkGate(user, 'nfl_gate');
+    await Statsig.flush();
+
+    expect(exposures().map((event) => event.eventName)).toEqual([
+      'statsig::layer_exposure',
+      'statsig::gate_exposure',
+    ]);
+    expect(exposures()[0].metadata?.parameterName).toEqual('b_param');
+    expect(Statsig.getSuppressedExposureCounts()).toEqual({
+      layer_exposure: 1,
+    });
+  });
+
+  it('keeps layer parameters of different experiments apart with the assignment strategy', async () => {
+    await StatsigTestUtils.initialize({ exposureDedupeStrategy: 'assignment' });
+    const user = makeUser('a');
+    const evaluation = new ConfigEvaluation(
+      true,
+      'layer_rule',
+      'group',
+      [],
+      { b_param: 'b', c_param: 'c', d_param: 'd' },
+      ['b_param'],
+      'an_experiment',
+    );
+    const logger = StatsigTestUtils.getLogger();
+    ['b_param', 'c_param', 'd_param'].forEach((parameter) =>
+      logger.logLayerExposure(user, 'a_layer', parameter, evaluation, false),
+    );
+    await Statsig.flush();
+
+    expect(
+      exposures().map((event) => [
+        event.metadata?.parameterName,
+        event.metadata?.allocatedExperiment,
+      ]),
+    ).toEqual([
+      ['b_param', 'an_experiment'],
+      ['c_param', ''],
+    ]);
+  });
+
+  it('times the window from when each exposure was logged', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    await StatsigTestUtils.initialize({ exposureDedupeWindowMs: 1000 });
+    await Statsig.checkGate(makeUser('a'), 'nfl_gate');
+    now += 600;
+    await Statsig.checkGate(makeUser('b'), 'nfl_gate');
+    now += 600;
+    // 'a' is past its window, 'b' is not
+    await Statsig.checkGate(makeUser('a'), 'nfl_gate');
+    await Statsig.checkGate(makeUser('b'), 'nfl_gate');
+    await Statsig.flush();
+
+    expect(exposures().map((event) => event.user?.userID)).toEqual([
+      'a',
+      'b',
+      'a',
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as statsigsdk from '../index';
+import exampleConfigSpecs from './jest.setup';
+import { GatesForIdListTest } from './BootstrapWithDataAdapter.data';
+
+jest.mock('node-fetch', () => jest.fn());
+import fetch from 'node-fetch';
+import FileDataAdapter from '../FileDataAdapter';
+import { DataAdapterKey, IDataAdapter } from '../interfaces/IDataAdapter';
+import StatsigInstanceUtils from '../StatsigInstanceUtils';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+// @ts-ignore
+const statsig = statsigsdk.default;
+
+let isNetworkEnabled = false;
+
+describe('FileDataAdapter', () => {
+  const user = {
+    userID: '12345',
+    email: 'kenny@nfl.com',
+    custom: { level: 9 },
+  };
+  let directory: string;
+  let dataAdapter: FileDataAdapter;
+
+  async function loadStore(dataAdapter: IDataAdapter) {
+    let gates: unknown[] = [];
+    gates.push(exampleConfigSpecs.gate);
+    gates = gates.concat(GatesForIdListTest);
+    await dataAdapter.initialize();
+    await dataAdapter.set(
+      DataAdapterKey.Rulesets,
+      makeConfigSpecResponse({ feature_gates: gates, layer_configs: [] }),
+      Date.now(),
+    );
+    await dataAdapter.set(DataAdapterKey.IDLists, '["user_id_list"]');
+    await dataAdapter.set(
+      DataAdapterKey.IDLists + '::user_id_list',
+      '+Z/hEKLio\n+M5m6a10x\n',
+    );
+  }
+
+  beforeEach(() => {
+    isNetworkEnabled = false;
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'statsig-adapter-'));
+    dataAdapter = new FileDataAdapter(directory);
+
+    //@ts-ignore
+    fetch.mockImplementation((url: string) => {
+      if (!isNetworkEnabled) {
+        return Promise.reject();
+      }
+
+      if (url.includes('/download_config_specs')) {
+        return Promise.resolve({
+          ok: true,
+          text: () =>
+            Promise.resolve(
+              JSON.stringify(require('./data/rulesets_e2e_full_dcs.json')),
+            ),
+        });
+      }
+
+      if (url.includes('/get_id_lists')) {
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              user_id_list: {
+                name: 'user_id_list',
+                size: 20,
+                url: 'https://fake.com/an_id_list_url',
+                creationTime: 1666625173000,
+                fileID: '1wkGp3X5k3mIQQR85D887n',
+              },
+            }),
+        });
+      }
+
+      if (url.includes('https://fake.com/an_id_list_url')) {
+        return Promise.resolve({
+          ok: true,
+          text: () => Promise.resolve(['+Z/hEKLio', '+M5m6a10x'].join('\n')),
+          headers: {
+            get: jest.fn((v) => {
+              if (v.toLowerCase() === 'content-length') {
+                return 20;
+              }
+            }),
+          },
+        });
+      }
+
+      return Promise.reject();
+    });
+  });
+
+  afterEach(async () => {
+    if (StatsigInstanceUtils.getInstance() != null) {
+      await statsig.shutdown();
+    }
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('fetches config specs and id lists from files when network is down', async () => {
+    await loadStore(dataAdapter);
+
+    await StatsigTestUtils.initialize({
+      localMode: true,
+      dataAdapter,
+      environment: { tier: 'staging' },
+    });
+
+    expect(await statsig.checkGate(user, 'nfl_gate')).toEqual(true);
+    const config = await statsig.getConfig(
+      user,
+      exampleConfigSpecs.config.name,
+    );
+    expect(config.getValue('seahawks', null)).toEqual({
+      name: 'Seattle Seahawks',
+      yearFounded: 1974,
+    });
+    expect(statsig.checkGateSync({ userID: 'a-user' }, 'test_id_list')).toBe(
+      true,
+    );
+  });
+
+  it('writes newer network values and their time to files', async () => {
+    isNetworkEnabled = true;
+    await StatsigTestUtils.initialize({
+      dataAdapter,
+      environment: { tier: 'staging' },
+    });
+
+    const { result, time } = await dataAdapter.get(DataAdapterKey.Rulesets);
+    const configSpecs = JSON.parse(result as string);
+    expect(time).toEqual(configSpecs.time);
+    expect(
+      configSpecs.feature_gates.find(
+        (gate: { name: string }) => gate.name === 'test_email_regex',
+      ).defaultValue,
+    ).toEqual(false);
+
+    const lookup = await dataAdapter.get(DataAdapterKey.IDLists);
+    expect(lookup.result).toEqual('["user_id_list"]');
+    const ids = await dataAdapter.get(
+      DataAdapterKey.IDLists + '::user_id_list',
+    );
+    expect(ids.result).toEqual('+Z/hEKLio\n+M5m6a10x\n');
+
+    // Only complete files are left behind, and their names are portable
+    const files = fs.readdirSync(directory).sort();
+    expect(files).toEqual([
+      'statsig.cache',
+      'statsig.id_lists',
+      'statsig.id_lists%3A%3Auser_id_list',
+    ]);
+  });
+
+  it('shares values between adapters on the same directory', async () => {
+    await loadStore(dataAdapter);
+    await dataAdapter.shutdown();
+
+    const reader = new FileDataAdapter(directory);
+    await reader.initialize();
+    expect((await reader.get(DataAdapterKey.IDLists)).result).toEqual(
+      '["user_id_list"]',
+    );
+    expect(await reader.get('missing_key')).toEqual({});
+  });
+
+  it('returns an error for corrupt files', async () => {
+    await dataAdapter.initialize();
+    fs.writeFileSync(path.join(directory, 'statsig.cache'), '{ not json');
+
+    const { result, error } = await dataAdapter.get(DataAdapterKey.Rulesets);
+    expect(result).toBeUndefined();
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  it('polls for updates written by another process', async () => {
+    const follower = new FileDataAdapter(directory, {
+      pollingUpdatesFor: [DataAdapterKey.Rulesets, DataAdapterKey.IDLists],
+    });
+    expect(follower.supportsPollingUpdatesFor(DataAdapterKey.Rulesets)).toBe(
+      true,
+    );
+    expect(dataAdapter.supportsPollingUpdatesFor(DataAdapterKey.Rulesets)).toBe(
+      false,
+    );
+
+    await StatsigTestUtils.initialize({
+      localMode: true,
+      dataAdapter: follower,
+      environment: { tier: 'staging' },
+    });
+    expect(await statsig.checkGate(user, 'nfl_gate')).toEqual(false);
+    expect(statsig.checkGateSync({ userID: 'a-user' }, 'test_id_list')).toBe(
+      false,
+    );
+
+    // A separate writer refreshes the shared cache
+    await loadStore(new FileDataAdapter(directory));
+
+    const evaluator = StatsigTestUtils.getEvaluator();
+    evaluator.store.syncInterval = 1000;
+    evaluator.store.idListSyncInterval = 1000;
+    evaluator.store.syncTimer = null;
+    evaluator.store.idListsSyncTimer = null;
+    evaluator.store.pollForUpdates();
+    // Rulesets and ID lists are polled separately
+    await StatsigTestUtils.waitFor(
+      () =>
+        statsig.checkGateSync(user, 'nfl_gate') &&
+        statsig.checkGateSync({ userID: 'a-user' }, 'test_id_list'),
+    );
+    expect(statsig.checkGateSync({ userID: 'c-user' }, 'test_id_list')).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import Statsig from '../index';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+const exampleConfigSpecs = require('./jest.setup');
+
+jest.mock('node-fetch', () => jest.fn());
+
+const CONFIG_SPEC_RESPONSE = makeConfigSpecResponse({
+  feature_gates: [
+    { ...exampleConfigSpecs.gate, entity: 'feature_gate' },
+    {
+      ...exampleConfigSpecs.disabled_gate,
+      name: 'disabled_gate',
+      entity: 'feature_gate',
+    },
+    {
+      ...exampleConfigSpecs.gate,
+      name: 'segment:nfl_employees',
+      entity: 'segment',
+    },
+  ],
+  dynamic_configs: [
+    { ...exampleConfigSpecs.config, entity: 'dynamic_config' },
+    {
+      ...exampleConfigSpecs.config,
+      name: 'exp_teams',
+      entity: 'experiment',
+    },
+  ],
+  layer_configs: [exampleConfigSpecs.allocated_layer],
+});
+
+const NFL_USER = {
+  userID: 'a-user',
+  email: 'someone@nfl.com',
+  custom: { level: 10 },
+};
+
+describe('Get all evaluations', () => {
+  let events: LogEventData[] = [];
+
+  beforeEach(async () => {
+    events = StatsigTestUtils.mockNetwork(CONFIG_SPEC_RESPONSE);
+    await StatsigTestUtils.initialize();
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('evaluates every entity and matches the single lookups', async () => {
+    const all = Statsig.getAllEvaluations(NFL_USER);
+
+    expect(Object.keys(all.featureGates).sort()).toEqual([
+      'disabled_gate',
+      'nfl_gate',
+      'segment:nfl_employees',
+    ]);
+    expect(Object.keys(all.dynamicConfigs).sort()).toEqual([
+      'exp_teams',
+      'teams',
+    ]);
+    expect(Object.keys(all.layers)).toEqual(['allocated_layer']);
+
+    expect(all.featureGates['nfl_gate'].value).toBe(true);
+    expect(all.featureGates['disabled_gate'].value).toBe(false);
+    expect(all.dynamicConfigs['teams'].getRuleID()).toBe(
+      Statsig.getConfigWithExposureLoggingDisabledSync(
+        NFL_USER,
+        'teams',
+      ).getRuleID(),
+    );
+    expect(all.dynamicConfigs['teams'].value).toEqual(
+      Statsig.getConfigWithExposureLoggingDisabledSync(NFL_USER, 'teams').value,
+    );
+    expect(all.layers['allocated_layer'].get('b_param', '')).toBe(
+      Statsig.getLayerWithExposureLoggingDisabledSync(
+        NFL_USER,
+        'allocated_layer',
+      ).get('b_param', ''),
+    );
+  });
+
+  it('filters by entity type and name prefix', async () => {
+    const segments = Statsig.getAllEvaluations(NFL_USER, {
+      entityTypes: ['segment', 'experiment'],
+    });
+    expect(Object.keys(segments.featureGates)).toEqual([
+      'segment:nfl_employees',
+    ]);
+    expect(Object.keys(segments.dynamicConfigs)).toEqual(['exp_teams']);
+    expect(segments.layers).toEqual({});
+
+    const prefixed = Statsig.getAllEvaluations(NFL_USER, {
+      namePrefix: 'nfl_',
+    });
+    expect(Object.keys(prefixed.featureGates)).toEqual(['nfl_gate']);
+    expect(prefixed.dynamicConfigs).toEqual({});
+    expect(prefixed.layers).toEqual({});
+  });
+
+  it('does not log exposures by default', async () => {
+    const all = Statsig.getAllEvaluations(NFL_USER);
+    all.layers['allocated_layer'].get('b_param', '');
+    await Statsig.flush();
+    expect(events.map((event) => event.eventName)).toEqual([
+      'statsig::non_exposed_checks',
+    ]);
+    expect(events[0].metadata?.['checks']).toEqual({
+      allocated_layer: 1,
+      disabled_gate: 1,
+      exp_teams: 1,
+      nfl_gate: 1,
+      'segment:nfl_employees': 1,
+      teams: 1,
+    });
+  });
+
+  it('logs exposures when enabled', async () => {
+    const all = Statsig.getAllEvaluations(NFL_USER, {
+      namePrefix: 'nfl_',
+      exposureLogging: true,
+    });
+    expect(all.featureGates['nfl_gate'].value).toBe(true);
+    await Statsig.flush();
+    expect(events.map((event) => event.eventName)).toEqual([
+      'statsig::gate_exposure',
+    ]);
+    expect(events[0].metadata?.['gate']).toBe('nfl_gate');
+  });
+
+  it('throws when the user is invalid', () => {
+    expect(() => Statsig.getAllEvaluations({} as any)).toThrow(
+      'Must pass a valid user with a userID or customID',
+    );
+  });
+});
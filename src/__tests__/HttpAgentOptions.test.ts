@@ -0,0 +1,195 @@
+import * as http from 'http';
+import * as net from 'net';
+import { URL } from 'url';
+import { ExceptionEndpoint } from '../ErrorBoundary';
+import Statsig from '../index';
+import StatsigTestUtils, { CONFIG_SPEC_RESPONSE } from './StatsigTestUtils';
+
+const ID_LISTS_RESPONSE = JSON.stringify({
+  list_1: {
+    name: 'list_1',
+    size: 3,
+    url: 'https://id-lists.example.com/list_1',
+    creationTime: 1,
+    fileID: 'file_1',
+  },
+});
+
+describe('fetchImplementation and httpAgentOptions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+  });
+
+  it('sends every request through the custom fetch with the agents', async () => {
+    const requests: { url: string; agent: http.Agent | undefined }[] = [];
+    const fetchImplementation = (
+      url: string,
+      params: Record<string, unknown>,
+    ) => {
+      const agent = params.agent as ((url: URL) => http.Agent) | undefined;
+      requests.push({ url, agent: agent?.(new URL(url)) });
+      let body = '{}';
+      if (url.includes('download_config_specs')) {
+        body = CONFIG_SPEC_RESPONSE;
+      } else if (url.includes('get_id_lists')) {
+        body = ID_LISTS_RESPONSE;
+      } else if (url.includes('list_1')) {
+        body = '+a\n';
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Map([['content-length', String(body.length)]]),
+        text: () => Promise.resolve(body),
+        json: () => Promise.resolve(JSON.parse(body)),
+      } as unknown as Response);
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await StatsigTestUtils.initialize({
+      fetchImplementation,
+      httpAgentOptions: { keepAlive: true, maxSockets: 4 },
+    });
+    // Reported to the sdk_exception endpoint by the error boundary
+    jest
+      .spyOn(StatsigTestUtils.getEvaluator(), 'checkGate')
+      .mockImplementation(() => {
+        throw new Error('evaluation failure');
+      });
+    Statsig.checkGateSync({ userID: 'a-user' }, 'nfl_gate');
+    Statsig.logEvent({ userID: 'a-user' }, 'an_event');
+    await Statsig.flush();
+
+    const urls = requests.map((request) => request.url);
+    expect(
+      urls.find((url) => url.includes('download_config_specs')),
+    ).toBeTruthy();
+    expect(urls.find((url) => url.includes('get_id_lists'))).toBeTruthy();
+    expect(urls).toContain('https://id-lists.example.com/list_1');
+    expect(urls).toContain(ExceptionEndpoint);
+
+    requests.forEach((request) => {
+      expect(request.agent).toBeInstanceOf(http.Agent);
+      expect((request.agent as any).keepAlive).toBe(true);
+      expect((request.agent as any).maxSockets).toBe(4);
+    });
+    const cdnAgent = requests.find((request) =>
+      request.url.includes('list_1'),
+    )?.agent;
+    expect((cdnAgent as any).protocol).toBe('https:');
+  });
+
+  describe('proxyUrl', () => {
+    let target: http.Server;
+    let proxy: http.Server;
+    let api: string;
+    let proxyUrl: string;
+    let targetPaths: string[] = [];
+    let tunnels: { target: string | undefined; auth: string | undefined }[] =
+      [];
+
+    beforeAll(async () => {
+      target = http.createServer((req, res) => {
+        targetPaths.push(req.url ?? '');
+        req.resume();
+        req.on('end', () => {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(
+            req.url?.includes('/download_config_specs')
+              ? CONFIG_SPEC_RESPONSE
+              : '{}',
+          );
+        });
+      });
+      proxy = http.createServer();
+      proxy.on('connect', (req, clientSocket: net.Socket, head) => {
+        tunnels.push({
+          target: req.url,
+          auth: req.headers['proxy-authorization'],
+        });
+        const [host, port] = (req.url ?? '').split(':');
+        const upstream = net.connect(Number(port), host, () => {
+          clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+          upstream.write(head);
+          upstream.pipe(clientSocket);
+          clientSocket.pipe(upstream);
+        });
+        upstream.on('error', () => clientSocket.destroy());
+        clientSocket.on('error', () => upstream.destroy());
+      });
+      api = (await StatsigTestUtils.startServer(target)) + '/v1';
+      proxyUrl = (await StatsigTestUtils.startServer(proxy)).replace(
+        'http://',
+        'http://user:p%40ss@',
+      );
+    });
+
+    beforeEach(() => {
+      targetPaths = [];
+      tunnels = [];
+    });
+
+    afterAll(async () => {
+      await StatsigTestUtils.stopServer(target);
+      await StatsigTestUtils.stopServer(proxy);
+    });
+
+    it('tunnels requests through the proxy', async () => {
+      await StatsigTestUtils.initialize({
+        api,
+        initStrategyForIDLists: 'none',
+        disableIdListsSync: true,
+        httpAgentOptions: { proxyUrl, keepAlive: true },
+      });
+      expect(
+        await Statsig.checkGate(
+          { userID: 'a-user', email: 'a@nfl.com' },
+          'nfl_gate',
+        ),
+      ).toBe(true);
+      await Statsig.flush();
+
+      expect(targetPaths).toEqual([
+        '/v1/download_config_specs/secret-key.json',
+        '/v1/log_event',
+      ]);
+      // The second request reuses the kept alive tunnel
+      expect(tunnels).toEqual([
+        {
+          target: api.replace('http://', '').replace('/v1', ''),
+          auth: 'Basic ' + Buffer.from('user:p@ss').toString('base64'),
+        },
+      ]);
+    });
+
+    it('gives up on a proxy that does not answer the CONNECT', async () => {
+      const stalled: net.Socket[] = [];
+      let closed = 0;
+      const silentProxy = http.createServer();
+      silentProxy.on('connect', (_req, clientSocket: net.Socket) => {
+        stalled.push(clientSocket);
+        clientSocket.on('end', () => closed++);
+      });
+      const silentProxyUrl = await StatsigTestUtils.startServer(silentProxy);
+      try {
+        const start = Date.now();
+        await StatsigTestUtils.initialize({
+          api,
+          initStrategyForIDLists: 'none',
+          disableIdListsSync: true,
+          httpAgentOptions: { proxyUrl: silentProxyUrl, connectTimeoutMs: 200 },
+        });
+
+        expect(Date.now() - start).toBeLessThan(1500);
+        expect(stalled.length).toBe(1);
+        // The agent closes its side of the tunnel
+        await StatsigTestUtils.waitFor(() => closed === 1);
+        expect(targetPaths).toEqual([]);
+      } finally {
+        stalled.forEach((socket) => socket.destroy());
+        await StatsigTestUtils.stopServer(silentProxy);
+      }
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Statsig from '../index';
+import { hashUnitIDForIDList } from '../utils/Hashing';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+function makeSegmentGate(name: string, listName: string) {
+  return {
+    name,
+    type: 'feature_gate',
+    salt: 'na',
+    defaultValue: false,
+    enabled: true,
+    rules: [
+      {
+        name: 'in_list',
+        groupName: 'in_list',
+        id: 'rule_' + name,
+        passPercentage: 100,
+        conditions: [
+          {
+            type: 'unit_id',
+            targetValue: listName,
+            operator: 'in_segment_list',
+            idType: 'userID',
+          },
+        ],
+        returnValue: true,
+      },
+    ],
+  };
+}
+
+function passes(userID: string, gateName: string): boolean {
+  return Statsig.checkGateWithExposureLoggingDisabledSync({ userID }, gateName);
+}
+
+describe('idListFiles', () => {
+  let directory: string;
+  let plainFile: string;
+  let hashedFile: string;
+  let requestedUrls: string[] = [];
+
+  beforeEach(async () => {
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string) => {
+      requestedUrls.push(url);
+      return Promise.reject(new Error('no network'));
+    });
+    requestedUrls = [];
+
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'statsig-id-lists-'));
+    const specsFile = path.join(directory, 'specs.json');
+    fs.writeFileSync(
+      specsFile,
+      makeConfigSpecResponse({
+        time: 1000,
+        feature_gates: [
+          makeSegmentGate('plain_gate', 'plain_list'),
+          makeSegmentGate('hashed_gate', 'hashed_list'),
+        ],
+      }),
+    );
+    plainFile = path.join(directory, 'plain_list.txt');
+    fs.writeFileSync(plainFile, '+user-a\n\n+user-b\n');
+    hashedFile = path.join(directory, 'hashed_list.txt');
+    fs.writeFileSync(
+      hashedFile,
+      `+${hashUnitIDForIDList('user-c')}\n+${hashUnitIDForIDList('user-e')}`,
+    );
+
+    await StatsigTestUtils.initialize({
+      specsFilePath: specsFile,
+      idListFiles: {
+        plain_list: { filePath: plainFile, unhashedIDs: true },
+        hashed_list: { filePath: hashedFile },
+      },
+    });
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads the lists from the files instead of the network', () => {
+    expect(passes('user-a', 'plain_gate')).toBe(true);
+    expect(passes('user-b', 'plain_gate')).toBe(true);
+    expect(passes('user-c', 'plain_gate')).toBe(false);
+    expect(passes('user-c', 'hashed_gate')).toBe(true);
+    // The last line has no line break yet, it is applied with the next change
+    expect(passes('user-e', 'hashed_gate')).toBe(false);
+    expect(requestedUrls.filter((url) => url.includes('id_list'))).toEqual([]);
+
+    const stats = Statsig.getIDListStats();
+    expect(stats.find((list) => list.name === 'plain_list')).toEqual(
+      expect.objectContaining({ readBytes: 17, size: 2 }),
+    );
+    expect(stats.find((list) => list.name === 'hashed_list')).toEqual(
+      expect.objectContaining({
+        readBytes: `+${hashUnitIDForIDList('user-c')}\n`.length,
+        size: 1,
+      }),
+    );
+  });
+
+  it('reads appended lines incrementally', async () => {
+    fs.appendFileSync(plainFile, '-user-a\n+user-d\n');
+    await StatsigTestUtils.waitFor(() => passes('user-d', 'plain_gate'));
+
+    expect(passes('user-a', 'plain_gate')).toBe(false);
+    expect(passes('user-b', 'plain_gate')).toBe(true);
+    expect(
+      StatsigTestUtils.getEvaluator().store.getIDList('plain_list').readBytes,
+    ).toBe(33);
+
+    fs.appendFileSync(hashedFile, '\n');
+    await StatsigTestUtils.waitFor(() => passes('user-e', 'hashed_gate'));
+    expect(passes('user-c', 'hashed_gate')).toBe(true);
+  });
+
+  it('reads a replaced file from the start', async () => {
+    const temp = path.join(directory, 'plain_list.tmp');
+    fs.writeFileSync(temp, '+user-f\n');
+    fs.renameSync(temp, plainFile);
+    await StatsigTestUtils.waitFor(() => passes('user-f', 'plain_gate'));
+
+    expect(passes('user-a', 'plain_gate')).toBe(false);
+    expect(
+      StatsigTestUtils.getEvaluator().store.getIDList('plain_list').readBytes,
+    ).toBe(8);
+  });
+});
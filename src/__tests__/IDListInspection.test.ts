@@ -0,0 +1,93 @@
+import * as http from 'http';
+import Statsig from '../index';
+import { hashUnitIDForIDList } from '../utils/Hashing';
+import StatsigTestUtils from './StatsigTestUtils';
+
+describe('ID list inspection', () => {
+  let server: http.Server;
+  let api: string;
+  let listContent = '';
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const path = req.url ?? '';
+        let body = '{}';
+        if (path.includes('/get_id_lists')) {
+          body = JSON.stringify({
+            list_1: {
+              name: 'list_1',
+              size: listContent.length,
+              url: api + '/list_1',
+              creationTime: 123,
+              fileID: 'file_1',
+            },
+          });
+        } else if (path.includes('/list_1')) {
+          const range = /bytes=(\d+)-/.exec(String(req.headers['range']));
+          body = listContent.slice(Number(range?.[1] ?? 0));
+        }
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+        });
+        res.end(body);
+      });
+    });
+    api = (await StatsigTestUtils.startServer(server)) + '/v1';
+  });
+
+  afterAll(async () => {
+    await StatsigTestUtils.stopServer(server);
+  });
+
+  beforeEach(async () => {
+    listContent =
+      `+${hashUnitIDForIDList('user-a')}\n` +
+      `+${hashUnitIDForIDList('user-b')}\n`;
+    await StatsigTestUtils.initialize({ api });
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('reports the loaded lists', async () => {
+    const [stats] = Statsig.getIDListStats();
+
+    expect(stats).toEqual({
+      name: 'list_1',
+      fileID: 'file_1',
+      creationTime: 123,
+      readBytes: 20,
+      size: 2,
+      lastSyncTime: expect.any(Number),
+    });
+    expect(stats.lastSyncTime).toBeGreaterThan(Date.now() - 5000);
+    expect(stats.lastSyncTime).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('updates the sync time even when nothing changed', async () => {
+    const [before] = Statsig.getIDListStats();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await StatsigTestUtils.getEvaluator().store.syncIdLists();
+    const [unchanged] = Statsig.getIDListStats();
+    expect(unchanged.lastSyncTime).toBeGreaterThan(before.lastSyncTime);
+    expect(unchanged.readBytes).toBe(20);
+
+    listContent += `-${hashUnitIDForIDList('user-a')}\n`;
+    await StatsigTestUtils.getEvaluator().store.syncIdLists();
+    const [changed] = Statsig.getIDListStats();
+    expect(changed.readBytes).toBe(30);
+    expect(changed.size).toBe(1);
+    expect(Statsig.isInIDList('list_1', 'user-a')).toBe(false);
+  });
+
+  it('looks up unit IDs like in_segment_list conditions', () => {
+    expect(Statsig.isInIDList('list_1', 'user-a')).toBe(true);
+    expect(Statsig.isInIDList('list_1', 'user-b')).toBe(true);
+    expect(Statsig.isInIDList('list_1', 'user-c')).toBe(false);
+    expect(Statsig.isInIDList('missing_list', 'user-a')).toBe(false);
+  });
+});
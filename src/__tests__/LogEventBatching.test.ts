@@ -0,0 +1,108 @@
+import * as http from 'http';
+import * as zlib from 'zlib';
+import Statsig, { StatsigOptions } from '../index';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils from './StatsigTestUtils';
+
+type LogRequest = {
+  contentEncoding: string | undefined;
+  bodyBytes: number;
+  events: LogEventData[];
+};
+
+describe('log_event batching and compression', () => {
+  let server: http.Server;
+  let api: string;
+  let logRequests: LogRequest[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        let body = Buffer.concat(chunks);
+        const contentEncoding = req.headers['content-encoding'];
+        if (contentEncoding === 'gzip') {
+          body = zlib.gunzipSync(body);
+        }
+        if (req.url?.endsWith('/log_event')) {
+          logRequests.push({
+            contentEncoding,
+            bodyBytes: body.length,
+            events: JSON.parse(body.toString('utf8')).events,
+          });
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ has_updates: false }));
+      });
+    });
+    api = (await StatsigTestUtils.startServer(server)) + '/v1';
+  });
+
+  afterAll(async () => {
+    await StatsigTestUtils.stopServer(server);
+  });
+
+  function initialize(options: StatsigOptions) {
+    return StatsigTestUtils.initialize({
+      api,
+      initStrategyForIDLists: 'none',
+      disableIdListsSync: true,
+      ...options,
+    });
+  }
+
+  function logEvents(count: number) {
+    for (let i = 0; i < count; i++) {
+      Statsig.logEvent({ userID: 'user_' + i }, 'heavy_event', i, {
+        payload: 'x'.repeat(300),
+      });
+    }
+  }
+
+  beforeEach(() => {
+    logRequests = [];
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('splits flushes into batches under the byte limit', async () => {
+    await initialize({ loggingMaxBatchBytes: 2000 });
+    logEvents(20);
+    await Statsig.flush();
+
+    expect(logRequests.length).toBeGreaterThan(3);
+    logRequests.forEach((request) => {
+      expect(request.contentEncoding).toBeUndefined();
+      expect(request.bodyBytes).toBeLessThanOrEqual(2000);
+    });
+    const values = logRequests
+      .map((request) => request.events)
+      .reduce((all, events) => all.concat(events), [])
+      .map((event) => event.value);
+    expect(values).toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  it('sends an event larger than the limit on its own', async () => {
+    await initialize({ loggingMaxBatchBytes: 100 });
+    logEvents(2);
+    await Statsig.flush();
+
+    expect(logRequests.map((request) => request.events.length)).toEqual([1, 1]);
+  });
+
+  it('gzips request bodies when enabled', async () => {
+    await initialize({ compressLogEvents: true });
+    logEvents(20);
+    await Statsig.flush();
+
+    expect(logRequests.length).toBe(1);
+    expect(logRequests[0].contentEncoding).toBe('gzip');
+    expect(logRequests[0].events.length).toBe(20);
+    expect(logRequests[0].events[0].metadata).toEqual({
+      payload: 'x'.repeat(300),
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Statsig from '../index';
+import { LogEventData } from '../LogEvent';
+import StatsigServer from '../StatsigServer';
+import StatsigTestUtils from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const user = { userID: 'a-user' };
+
+describe('persistentEventQueue', () => {
+  let isNetworkEnabled = true;
+  let uploads: LogEventData[][] = [];
+  let directory: string;
+
+  function initialize(queueOptions: Record<string, unknown> = {}) {
+    return StatsigTestUtils.initialize({
+      postLogsRetryLimit: 0,
+      persistentEventQueue: { directory, ...queueOptions },
+    });
+  }
+
+  function batchFiles(): string[] {
+    return fs.readdirSync(directory).filter((name) => name.endsWith('.json'));
+  }
+
+  function uploadedEventNames(): string[] {
+    return ([] as LogEventData[])
+      .concat(...uploads)
+      .map((event) => event.eventName)
+      .filter((name) => !name.startsWith('statsig::'));
+  }
+
+  beforeEach(() => {
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string, params) => {
+      if (url.includes('log_event')) {
+        if (!isNetworkEnabled) {
+          return Promise.reject(new Error('offline'));
+        }
+        uploads.push(JSON.parse(params.body)['events']);
+      }
+      return Promise.resolve({
+        ok: true,
+        text: () => Promise.resolve('{}'),
+        json: () => Promise.resolve({}),
+      });
+    });
+    isNetworkEnabled = true;
+    uploads = [];
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'statsig-events-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('removes batches once they are uploaded', async () => {
+    await initialize();
+    Statsig.logEvent(user, 'an_event');
+    await Statsig.flush();
+
+    expect(uploadedEventNames()).toEqual(['an_event']);
+    expect(batchFiles()).toEqual([]);
+  });
+
+  it('replays failed batches on a later flush', async () => {
+    await initialize();
+    isNetworkEnabled = false;
+    Statsig.logEvent(user, 'first_event');
+    await Statsig.flush();
+    Statsig.logEvent(user, 'second_event');
+    await Statsig.flush();
+    expect(batchFiles().length).toBe(2);
+
+    isNetworkEnabled = true;
+    Statsig.logEvent(user, 'third_event');
+    await Statsig.flush();
+
+    expect(uploadedEventNames()).toEqual([
+      'third_event',
+      'first_event',
+      'second_event',
+    ]);
+    expect(batchFiles()).toEqual([]);
+  });
+
+  it('spills pending events on exit and replays them on the next start', async () => {
+    await initialize();
+    // Lets the replay on start finish, so it does not pick up the spilled batch
+    await StatsigTestUtils.waitFor(
+      () => !StatsigTestUtils.getLogger().isReplaying,
+    );
+    Statsig.logEvent(user, 'pending_event');
+    StatsigTestUtils.getLogger().spillPendingEvents();
+    expect(batchFiles().length).toBe(1);
+
+    Statsig.shutdown();
+    await initialize();
+    await StatsigTestUtils.waitFor(() => batchFiles().length === 0);
+
+    expect(uploadedEventNames()).toEqual(['pending_event']);
+    expect(batchFiles()).toEqual([]);
+  });
+
+  it('backs off after a failed replay', async () => {
+    await initialize();
+    isNetworkEnabled = false;
+    Statsig.logEvent(user, 'stored_event');
+    await Statsig.flush();
+
+    // The network recovers for the upload but not for the replay
+    const fetch = require('node-fetch');
+    let logRequests = 0;
+    fetch.mockImplementation((url: string, params) => {
+      if (url.includes('log_event')) {
+        logRequests++;
+        if (logRequests === 2) {
+          return Promise.reject(new Error('offline'));
+        }
+        uploads.push(JSON.parse(params.body)['events']);
+      }
+      return Promise.resolve({ ok: true });
+    });
+    Statsig.logEvent(user, 'new_event');
+    await Statsig.flush();
+    expect(logRequests).toBe(2);
+
+    Statsig.logEvent(user, 'another_event');
+    await Statsig.flush();
+    expect(logRequests).toBe(3);
+    expect(batchFiles().length).toBe(1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 10 * 1000);
+    await Statsig.flush();
+    expect(logRequests).toBe(4);
+    expect(uploadedEventNames()).toEqual([
+      'new_event',
+      'another_event',
+      'stored_event',
+    ]);
+    expect(batchFiles()).toEqual([]);
+  });
+
+  it('drops the oldest batches past the size cap with a diagnostic', async () => {
+    await StatsigTestUtils.initialize({
+      disableDiagnostics: false,
+      postLogsRetryLimit: 0,
+      persistentEventQueue: { directory, maxBytes: 600 },
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    isNetworkEnabled = false;
+    for (let i = 0; i < 4; i++) {
+      Statsig.logEvent(user, 'event_' + i, 'x'.repeat(100));
+      await Statsig.flush();
+    }
+    expect(batchFiles().length).toBeLessThan(4);
+
+    isNetworkEnabled = true;
+    await Statsig.flush();
+    await Statsig.flush();
+
+    // The newest batches survive and are replayed in order
+    const names = uploadedEventNames();
+    expect(names).toContain('event_3');
+    expect(names).not.toContain('event_0');
+    expect(names).toEqual([...names].sort());
+
+    const markers = ([] as LogEventData[])
+      .concat(...uploads)
+      .filter((event) => event.eventName === 'statsig::diagnostics')
+      .map((event) => (event.metadata as any).markers)
+      .reduce((all, list) => all.concat(list), [])
+      .filter((marker) => marker.key === 'persistent_event_queue');
+    expect(markers.length).toBeGreaterThan(0);
+    markers.forEach((marker) => {
+      expect(marker.value).toBe(false);
+      expect(marker.metadata.reason).toBe('max_bytes');
+      expect(marker.metadata.droppedBatches).toBe(1);
+      expect(marker.metadata.droppedEvents).toBeGreaterThan(0);
+    });
+  });
+
+  it('drops expired batches', async () => {
+    fs.writeFileSync(
+      path.join(directory, `${Date.now() - 60 * 1000}-1-1-1.json`),
+      JSON.stringify([{ eventName: 'expired_event' }]),
+    );
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await initialize({ maxAgeMs: 1000 });
+    await StatsigTestUtils.waitFor(() => batchFiles().length === 0);
+
+    expect(uploadedEventNames()).toEqual([]);
+    expect(batchFiles()).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(
+      'statsigSDK> Dropped 1 persisted events (max_age)',
+    );
+  });
+
+  it('replays stored batches once initialize is done, listing them once', async () => {
+    const time = Date.now() - 1000;
+    ['first', 'second', 'third'].forEach((name, i) =>
+      fs.writeFileSync(
+        path.join(directory, `${time}-1-${i + 1}-1.json`),
+        JSON.stringify([{ eventName: name + '_event' }]),
+      ),
+    );
+    const readdir = jest.spyOn(fs.promises, 'readdir');
+
+    const server = new StatsigServer('secret-key', {
+      disableDiagnostics: true,
+      persistentEventQueue: { directory },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(uploads).toEqual([]);
+
+    await server.initializeAsync();
+    await StatsigTestUtils.waitFor(() => batchFiles().length === 0);
+    server.shutdown();
+
+    expect(uploadedEventNames()).toEqual([
+      'first_event',
+      'second_event',
+      'third_event',
+    ]);
+    expect(batchFiles()).toEqual([]);
+    // Once to prune and once to list the batches to replay
+    expect(readdir).toHaveBeenCalledTimes(2);
+  });
+});
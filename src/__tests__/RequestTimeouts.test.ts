@@ -0,0 +1,223 @@
+import * as http from 'http';
+import Statsig, { StatsigOptions } from '../index';
+import { LogEventData } from '../LogEvent';
+import CompactIDSet from '../utils/CompactIDSet';
+import StatsigTestUtils, { CONFIG_SPEC_RESPONSE } from './StatsigTestUtils';
+
+describe('request timeouts', () => {
+  let server: http.Server;
+  let api: string;
+  let hangingPaths: string[] = [];
+  let stallingPaths: string[] = [];
+  let events: LogEventData[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const path = req.url ?? '';
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        if (hangingPaths.find((hanging) => path.includes(hanging))) {
+          return;
+        }
+        if (stallingPaths.find((stalling) => path.includes(stalling))) {
+          // Sends the headers and part of the body, then nothing more
+          res.writeHead(200, {
+            'Content-Type': 'application/json',
+            'Content-Length': 1000,
+          });
+          res.write('{"time": ');
+          return;
+        }
+        let body = '{}';
+        if (path.includes('/download_config_specs')) {
+          body = CONFIG_SPEC_RESPONSE;
+        } else if (path.includes('/get_id_lists')) {
+          body = JSON.stringify({
+            list_1: {
+              name: 'list_1',
+              size: 3,
+              url: api + '/list_1',
+              creationTime: 1,
+              fileID: 'file_1',
+            },
+          });
+        } else if (path.includes('/list_1')) {
+          body = '+a\n';
+        } else if (path.includes('/log_event')) {
+          events = events.concat(
+            JSON.parse(Buffer.concat(chunks).toString()).events,
+          );
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(body);
+      });
+    });
+    api = (await StatsigTestUtils.startServer(server)) + '/v1';
+  });
+
+  afterAll(async () => {
+    await StatsigTestUtils.stopServer(server);
+  });
+
+  beforeEach(() => {
+    hangingPaths = [];
+    stallingPaths = [];
+    events = [];
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Statsig.shutdown();
+  });
+
+  function initialize(options: StatsigOptions) {
+    return StatsigTestUtils.initialize({
+      api,
+      disableDiagnostics: false,
+      postLogsRetryLimit: 0,
+      ...options,
+    });
+  }
+
+  async function initializeMarkers() {
+    await Statsig.flush();
+    return events
+      .filter((event) => event.eventName === 'statsig::diagnostics')
+      .filter((event) => (event.metadata as any).context === 'initialize')
+      .map((event) => (event.metadata as any).markers)
+      .reduce((all, markers) => all.concat(markers), []);
+  }
+
+  it('times out download_config_specs', async () => {
+    hangingPaths = ['/download_config_specs'];
+    const start = Date.now();
+    await initialize({ downloadConfigSpecsTimeoutMs: 100 });
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(
+      await Statsig.checkGate({ userID: 'a', email: 'a@nfl.com' }, 'nfl_gate'),
+    ).toBe(false);
+    expect(await initializeMarkers()).toContainEqual(
+      expect.objectContaining({
+        key: 'download_config_specs',
+        action: 'end',
+        step: 'network_request',
+        value: 'timeout',
+      }),
+    );
+  });
+
+  it('times out a body that stalls after the headers', async () => {
+    stallingPaths = ['/download_config_specs', '/get_id_lists'];
+    const start = Date.now();
+    await initialize({
+      downloadConfigSpecsTimeoutMs: 200,
+      getIdListsTimeoutMs: 200,
+    });
+
+    expect(Date.now() - start).toBeLessThan(1500);
+    expect(
+      await Statsig.checkGate({ userID: 'a', email: 'a@nfl.com' }, 'nfl_gate'),
+    ).toBe(false);
+    // The headers arrived in time, the body did not
+    expect(await initializeMarkers()).toContainEqual(
+      expect.objectContaining({
+        key: 'download_config_specs',
+        action: 'end',
+        step: 'network_request',
+        value: 200,
+      }),
+    );
+  });
+
+  it('times out get_id_lists', async () => {
+    hangingPaths = ['/get_id_lists'];
+    await initialize({ getIdListsTimeoutMs: 100 });
+
+    expect(await initializeMarkers()).toContainEqual(
+      expect.objectContaining({
+        key: 'get_id_list_sources',
+        action: 'end',
+        step: 'network_request',
+        value: 'timeout',
+      }),
+    );
+  });
+
+  it('times out id list downloads', async () => {
+    hangingPaths = ['/list_1'];
+    await initialize({ idListDownloadTimeoutMs: 100 });
+
+    const markers = await initializeMarkers();
+    expect(markers).toContainEqual(
+      expect.objectContaining({
+        key: 'get_id_list',
+        action: 'end',
+        step: 'network_request',
+        value: 'timeout',
+      }),
+    );
+    expect(
+      StatsigTestUtils.getEvaluator().store.store.idLists.list_1.ids,
+    ).toEqual(new CompactIDSet());
+  });
+
+  it('times out requests where AbortController is missing', async () => {
+    const abortController = global.AbortController;
+    delete (global as any).AbortController;
+    try {
+      hangingPaths = ['/download_config_specs', '/get_id_lists'];
+      const start = Date.now();
+      await initialize({
+        downloadConfigSpecsTimeoutMs: 100,
+        getIdListsTimeoutMs: 100,
+      });
+
+      expect(Date.now() - start).toBeLessThan(1000);
+      const markers = await initializeMarkers();
+      expect(markers).toContainEqual(
+        expect.objectContaining({
+          key: 'download_config_specs',
+          action: 'end',
+          step: 'network_request',
+          value: 'timeout',
+        }),
+      );
+      expect(markers).toContainEqual(
+        expect.objectContaining({
+          key: 'get_id_list_sources',
+          action: 'end',
+          step: 'network_request',
+          value: 'timeout',
+        }),
+      );
+    } finally {
+      global.AbortController = abortController;
+    }
+  });
+
+  it('times out log_event', async () => {
+    await initialize({ logEventTimeoutMs: 100 });
+    hangingPaths = ['/log_event'];
+    Statsig.logEvent({ userID: 'a' }, 'an_event');
+    await Statsig.flush();
+
+    const queued: LogEventData[] = StatsigTestUtils.getLogger().queue;
+    expect(queued.map((event) => event.eventName)).toEqual([
+      'statsig::diagnostics',
+      'statsig::log_event_failed',
+    ]);
+    expect((queued[0].metadata as any).markers).toEqual([
+      expect.objectContaining({
+        key: 'log_event',
+        step: 'network_request',
+        value: 'timeout',
+      }),
+    ]);
+    expect((queued[1].metadata as any).error).toEqual(
+      `Request to ${api}/log_event timed out after 100ms`,
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import Statsig from '../index';
+import StatsigTestUtils from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const user = { userID: 'a-user', email: 'someone@nfl.com' };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('runWithOverrides', () => {
+  beforeEach(async () => {
+    const fetch = require('node-fetch');
+    fetch.mockImplementation(() => Promise.reject(new Error('no network')));
+
+    await StatsigTestUtils.initialize({ localMode: true });
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('applies the overrides only within the async context', async () => {
+    const withOverrides = Statsig.runWithOverrides(
+      {
+        gates: { a_gate: true },
+        configs: { a_config: { color: 'red' } },
+        layers: { a_layer: { size: 2 } },
+      },
+      async () => {
+        await sleep(20);
+        return {
+          gate: Statsig.checkGateSync(user, 'a_gate'),
+          config: Statsig.getConfigSync(user, 'a_config').value,
+          layer: Statsig.getLayerSync(user, 'a_layer').get('size', 0),
+        };
+      },
+    );
+    const without = (async () => {
+      await sleep(10);
+      return {
+        gate: Statsig.checkGateSync(user, 'a_gate'),
+        config: Statsig.getConfigSync(user, 'a_config').value,
+        layer: Statsig.getLayerSync(user, 'a_layer').get('size', 0),
+      };
+    })();
+
+    expect(await withOverrides).toEqual({
+      gate: true,
+      config: { color: 'red' },
+      layer: 2,
+    });
+    expect(await without).toEqual({ gate: false, config: {}, layer: 0 });
+    expect(Statsig.checkGateSync(user, 'a_gate')).toBe(false);
+  });
+
+  it('keeps concurrent contexts apart', async () => {
+    const run = (value: boolean) =>
+      Statsig.runWithOverrides({ gates: { a_gate: value } }, async () => {
+        await sleep(value ? 10 : 20);
+        return Statsig.checkGateSync(user, 'a_gate');
+      });
+
+    expect(await Promise.all([run(true), run(false), run(true)])).toEqual([
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  it('takes precedence over global overrides', () => {
+    Statsig.overrideGate('a_gate', true, user.userID);
+    Statsig.overrideConfig('a_config', { color: 'blue' });
+
+    Statsig.runWithOverrides({ gates: { a_gate: false } }, () => {
+      expect(Statsig.checkGateSync(user, 'a_gate')).toBe(false);
+      expect(Statsig.getConfigSync(user, 'a_config').value).toEqual({
+        color: 'blue',
+      });
+    });
+    expect(Statsig.checkGateSync(user, 'a_gate')).toBe(true);
+  });
+
+  it('merges nested overrides', () => {
+    Statsig.runWithOverrides({ gates: { a_gate: true, b_gate: true } }, () => {
+      Statsig.runWithOverrides({ gates: { b_gate: false } }, () => {
+        expect(Statsig.checkGateSync(user, 'a_gate')).toBe(true);
+        expect(Statsig.checkGateSync(user, 'b_gate')).toBe(false);
+      });
+      expect(Statsig.checkGateSync(user, 'b_gate')).toBe(true);
+    });
+  });
+
+  it('rethrows errors from the function', () => {
+    expect(() =>
+      Statsig.runWithOverrides({}, () => {
+        throw new Error('from the callback');
+      }),
+    ).toThrow('from the callback');
+    expect(() =>
+      Statsig.runWithOverrides(null as any, () => undefined),
+    ).toThrow('runWithOverrides requires overrides and a function');
+  });
+});
@@ -4,6 +4,7 @@ import StatsigFetcher from '../utils/StatsigFetcher';
 import { OptionsWithDefaults } from '../StatsigOptions';
 import Diagnostics, { MAX_SAMPLING_RATE } from '../Diagnostics';
 import LogEventProcessor from '../LogEventProcessor';
+import CompactIDSet from '../utils/CompactIDSet';
 
 const exampleConfigSpecs = require('./jest.setup');
 
@@ -121,7 +122,7 @@ describe('Verify behavior of SpecStore', () => {
     expect(store.store.idLists).toEqual(
       expect.objectContaining({
         list_1: {
-          ids: { 1: true, 2: true, 3: true, 4: true, 5: true },
+          ids: CompactIDSet.fromIDs(['1', '2', '3', '4', '5']),
           readBytes: 15,
           url: 'https://id_list_content/list_1',
           fileID: 'file_id_1',
@@ -234,7 +235,7 @@ describe('Verify behavior of SpecStore', () => {
     expect(store.store.idLists).toEqual(
       expect.objectContaining({
         list_1: {
-          ids: { 4: true, 5: true }, // 1,2,3, should be deleted
+          ids: CompactIDSet.fromIDs(['4', '5']), // 1,2,3, should be deleted
           readBytes: 24,
           url: 'https://id_list_content/list_1',
           fileID: 'file_id_1',
@@ -302,7 +303,7 @@ describe('Verify behavior of SpecStore', () => {
     expect(store.store.idLists).toEqual(
       expect.objectContaining({
         list_1: {
-          ids: { 1: true, 2: true, 3: true, 4: true, 5: true },
+          ids: CompactIDSet.fromIDs(['1', '2', '3', '4', '5']),
           readBytes: 15,
           url: 'https://id_list_content/list_1_2',
           fileID: 'file_id_2',
@@ -368,7 +369,7 @@ describe('Verify behavior of SpecStore', () => {
     expect(store.store.idLists).toEqual(
       expect.objectContaining({
         list_1: {
-          ids: { 1: true, 2: true, 3: true, 4: true, 5: true },
+          ids: CompactIDSet.fromIDs(['1', '2', '3', '4', '5']),
           readBytes: 16,
           url: 'https://id_list_content/list_1_2',
           fileID: 'file_id_2',
@@ -430,7 +431,7 @@ describe('Verify behavior of SpecStore', () => {
     expect(store.store.idLists).toEqual(
       expect.objectContaining({
         list_1: {
-          ids: { 1: true, 2: true, 3: true, 4: true, 5: true },
+          ids: CompactIDSet.fromIDs(['1', '2', '3', '4', '5']),
           readBytes: 16,
           url: 'https://id_list_content/list_1_2',
           fileID: 'file_id_2',
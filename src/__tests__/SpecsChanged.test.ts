@@ -0,0 +1,155 @@
+import Statsig from '../index';
+import { SpecsChangedEvent } from '../SpecsDiff';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+const exampleConfigSpecs = require('./jest.setup');
+
+jest.mock('node-fetch', () => jest.fn());
+
+const gate = { ...exampleConfigSpecs.gate, version: 1 };
+const config = { ...exampleConfigSpecs.config, version: 3 };
+const layer = exampleConfigSpecs.allocated_layer;
+
+describe('onSpecsChanged', () => {
+  let response = '';
+
+  beforeEach(async () => {
+    response = makeConfigSpecResponse({
+      time: 1000,
+      feature_gates: [gate],
+      dynamic_configs: [config],
+      layer_configs: [layer],
+    });
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string) => {
+      if (url.includes('download_config_specs')) {
+        return Promise.resolve({
+          ok: true,
+          text: () => Promise.resolve(response),
+        });
+      }
+      return Promise.resolve({ ok: true });
+    });
+
+    await StatsigTestUtils.initialize();
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('reports added, removed and modified entities', async () => {
+    const events: SpecsChangedEvent[] = [];
+    Statsig.onSpecsChanged((event) => events.push(event));
+
+    response = makeConfigSpecResponse({
+      time: 2000,
+      feature_gates: [
+        { ...gate, version: 2, enabled: false },
+        { ...exampleConfigSpecs.half_pass_gate, version: 1 },
+      ],
+      dynamic_configs: [],
+      layer_configs: [{ ...layer, defaultValue: { a_param: 'changed' } }],
+    });
+    await Statsig.syncConfigSpecs();
+
+    expect(events).toEqual([
+      {
+        gates: {
+          added: ['nfl_gate2'],
+          removed: [],
+          modified: [
+            {
+              name: 'nfl_gate',
+              oldVersion: 1,
+              newVersion: 2,
+              changedFields: ['enabled'],
+            },
+          ],
+        },
+        configs: { added: [], removed: ['teams'], modified: [] },
+        layers: {
+          added: [],
+          removed: [],
+          modified: [
+            {
+              name: 'allocated_layer',
+              oldVersion: null,
+              newVersion: null,
+              changedFields: ['defaultValue'],
+            },
+          ],
+        },
+        previousTime: 1000,
+        time: 2000,
+      },
+    ]);
+  });
+
+  it('detects rule changes and skips syncs without changes', async () => {
+    const listener = jest.fn();
+    Statsig.onSpecsChanged(listener);
+
+    response = makeConfigSpecResponse({
+      time: 1500,
+      feature_gates: [gate],
+      dynamic_configs: [config],
+      layer_configs: [layer],
+    });
+    await Statsig.syncConfigSpecs();
+    expect(listener).not.toHaveBeenCalled();
+
+    const rules = [...config.rules].reverse();
+    response = makeConfigSpecResponse({
+      time: 2500,
+      feature_gates: [gate],
+      dynamic_configs: [{ ...config, rules, isActive: true }],
+      layer_configs: [layer],
+    });
+    await Statsig.syncConfigSpecs();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].configs.modified).toEqual([
+      {
+        name: 'teams',
+        oldVersion: 3,
+        newVersion: 3,
+        changedFields: ['rules', 'isActive'],
+      },
+    ]);
+  });
+
+  it('isolates throwing listeners and supports unsubscribing', async () => {
+    const throwing = jest.fn(() => {
+      throw new Error('listener failure');
+    });
+    const removed = jest.fn();
+    const kept = jest.fn();
+    Statsig.onSpecsChanged(throwing);
+    const unsubscribe = Statsig.onSpecsChanged(removed);
+    Statsig.onSpecsChanged(kept);
+    unsubscribe();
+
+    response = makeConfigSpecResponse({
+      time: 3000,
+      feature_gates: [gate],
+      dynamic_configs: [],
+      layer_configs: [],
+    });
+    await Statsig.syncConfigSpecs();
+
+    expect(throwing).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+    expect(kept).toHaveBeenCalledTimes(1);
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(
+        { userID: 'a', email: 'a@nfl.com' },
+        'nfl_gate',
+      ),
+    ).toBe(true);
+  });
+
+  it('rejects listeners that are not functions', () => {
+    expect(() => Statsig.onSpecsChanged(null as any)).toThrow(
+      'onSpecsChanged requires a listener function',
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Statsig from '../index';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+const exampleConfigSpecs = require('./jest.setup');
+
+jest.mock('node-fetch', () => jest.fn());
+
+const disabledGate = { ...exampleConfigSpecs.gate, enabled: false };
+
+const user = { userID: 'a-user', email: 'someone@nfl.com' };
+
+describe('specsFilePath', () => {
+  let directory: string;
+  let specsFile: string;
+  let requestedUrls: string[] = [];
+
+  beforeEach(async () => {
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string) => {
+      requestedUrls.push(url);
+      return Promise.reject(new Error('no network'));
+    });
+    requestedUrls = [];
+
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'statsig-specs-'));
+    specsFile = path.join(directory, 'specs.json');
+    fs.writeFileSync(specsFile, makeConfigSpecResponse({ time: 1000 }));
+
+    await StatsigTestUtils.initialize({
+      initStrategyForIDLists: 'none',
+      specsFilePath: specsFile,
+    });
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads specs from the file instead of the network', () => {
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(user, 'nfl_gate'),
+    ).toBe(true);
+    expect(
+      Statsig.explainGate(user, 'nfl_gate')?.evaluationDetails?.reason,
+    ).toBe('File');
+    expect(
+      requestedUrls.filter((url) => url.includes('download_config_specs')),
+    ).toEqual([]);
+  });
+
+  it('reloads when the file is rewritten in place', async () => {
+    fs.writeFileSync(
+      specsFile,
+      makeConfigSpecResponse({ time: 2000, feature_gates: [disabledGate] }),
+    );
+    await StatsigTestUtils.waitFor(
+      () => !Statsig.checkGateWithExposureLoggingDisabledSync(user, 'nfl_gate'),
+    );
+  });
+
+  it('reloads when the file is atomically replaced', async () => {
+    const temp = path.join(directory, 'specs.json.tmp');
+    fs.writeFileSync(
+      temp,
+      makeConfigSpecResponse({ time: 2000, feature_gates: [disabledGate] }),
+    );
+    fs.renameSync(temp, specsFile);
+    await StatsigTestUtils.waitFor(
+      () => !Statsig.checkGateWithExposureLoggingDisabledSync(user, 'nfl_gate'),
+    );
+
+    fs.writeFileSync(temp, makeConfigSpecResponse({ time: 3000 }));
+    fs.renameSync(temp, specsFile);
+    await StatsigTestUtils.waitFor(() =>
+      Statsig.checkGateWithExposureLoggingDisabledSync(user, 'nfl_gate'),
+    );
+  });
+
+  it('keeps the last good specs when the file is invalid', async () => {
+    fs.writeFileSync(specsFile, '{ not json');
+    await Statsig.syncConfigSpecs();
+    expect(
+      Statsig.checkGateWithExposureLoggingDisabledSync(user, 'nfl_gate'),
+    ).toBe(true);
+  });
+});
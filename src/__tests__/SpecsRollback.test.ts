@@ -0,0 +1,105 @@
+import Statsig, { StatsigOptions } from '../index';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+jest.mock('node-fetch', () => jest.fn());
+
+const exampleConfigSpecs = require('./jest.setup');
+
+const user = { userID: 'a-user', email: 'someone@nfl.com' };
+
+const disabledGate = { ...exampleConfigSpecs.gate, enabled: false };
+
+describe('spec rollback and pinning', () => {
+  let specsResponse: string;
+  let dcsRequests = 0;
+
+  function initialize(options: StatsigOptions = {}) {
+    return StatsigTestUtils.initialize({
+      initStrategyForIDLists: 'none',
+      disableIdListsSync: true,
+      ...options,
+    });
+  }
+
+  function gateReason() {
+    return Statsig.explainGate(user, 'nfl_gate')?.evaluationDetails?.reason;
+  }
+
+  beforeEach(() => {
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string) => {
+      if (url.includes('download_config_specs')) {
+        dcsRequests++;
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          text: () => Promise.resolve(specsResponse),
+        });
+      }
+      return Promise.resolve({ ok: true, status: 200 });
+    });
+    specsResponse = makeConfigSpecResponse({ time: 1000 });
+    dcsRequests = 0;
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  it('rolls back to an earlier snapshot and pins it until unpinned', async () => {
+    await initialize();
+    specsResponse = makeConfigSpecResponse({
+      time: 2000,
+      feature_gates: [disabledGate],
+    });
+    await Statsig.syncConfigSpecs();
+    expect(Statsig.checkGateSync(user, 'nfl_gate')).toBe(false);
+    expect(Statsig.getSpecsSnapshotTimes()).toEqual([2000, 1000]);
+
+    expect(Statsig.rollbackSpecs(1500)).toBe(true);
+    expect(Statsig.checkGateSync(user, 'nfl_gate')).toBe(true);
+    expect(gateReason()).toBe('Pinned');
+
+    await Statsig.syncConfigSpecs();
+    expect(dcsRequests).toBe(2);
+    expect(Statsig.checkGateSync(user, 'nfl_gate')).toBe(true);
+
+    // The unchanged bad payload is applied again once unpinned
+    await Statsig.unpinSpecs();
+    expect(dcsRequests).toBe(3);
+    expect(Statsig.checkGateSync(user, 'nfl_gate')).toBe(false);
+    expect(gateReason()).toBe('Network');
+  });
+
+  it('ignores syncs while pinned', async () => {
+    await initialize();
+    Statsig.pinSpecs();
+    specsResponse = makeConfigSpecResponse({
+      time: 2000,
+      feature_gates: [disabledGate],
+    });
+    await Statsig.syncConfigSpecs();
+
+    expect(dcsRequests).toBe(1);
+    expect(Statsig.checkGateSync(user, 'nfl_gate')).toBe(true);
+    expect(gateReason()).toBe('Pinned');
+
+    await Statsig.unpinSpecs();
+    expect(Statsig.checkGateSync(user, 'nfl_gate')).toBe(false);
+  });
+
+  it('keeps a bounded number of snapshots', async () => {
+    await initialize({ specsHistorySize: 2 });
+    specsResponse = makeConfigSpecResponse({
+      time: 2000,
+      feature_gates: [disabledGate],
+    });
+    await Statsig.syncConfigSpecs();
+    specsResponse = makeConfigSpecResponse({ time: 3000 });
+    await Statsig.syncConfigSpecs();
+
+    expect(Statsig.getSpecsSnapshotTimes()).toEqual([3000, 2000]);
+    expect(Statsig.rollbackSpecs(1000)).toBe(false);
+    expect(gateReason()).toBe('Network');
+  });
+});
@@ -0,0 +1,297 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageChannel, MessagePort } from 'worker_threads';
+import { StatsigOptions } from '../index';
+import { SpecsSharingChannel } from '../SpecsSharing';
+import StatsigServer from '../StatsigServer';
+import CompactIDSet from '../utils/CompactIDSet';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+const exampleConfigSpecs = require('./jest.setup');
+
+const user = { userID: 'a-user', email: 'someone@nfl.com' };
+
+// Like cluster IPC, a message sent before the other side listens is lost
+function unbufferedChannels(): [SpecsSharingChannel, SpecsSharingChannel] {
+  const leader = new EventEmitter();
+  const follower = new EventEmitter();
+  const connect = (from: EventEmitter, to: EventEmitter) =>
+    Object.assign(from, {
+      send: (message: unknown) =>
+        setImmediate(() => to.emit('message', message)),
+    });
+  return [connect(leader, follower), connect(follower, leader)];
+}
+
+describe('sharing specs between a leader and followers', () => {
+  let server: http.Server;
+  let api: string;
+  let specsTime = 1000;
+  let gates: unknown[] = [];
+  let idListContent = '+a\n+b\n';
+  let requests: Record<string, number> = {};
+  let port1: MessagePort;
+  let port2: MessagePort;
+  let instances: StatsigServer[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const path = req.url ?? '';
+        const key = String(req.headers['statsig-api-key'] ?? 'none');
+        requests[key] = (requests[key] ?? 0) + 1;
+        let body = '{}';
+        if (path.includes('/download_config_specs')) {
+          body = makeConfigSpecResponse({
+            time: specsTime,
+            feature_gates: gates,
+          });
+        } else if (path.includes('/get_id_lists')) {
+          body = JSON.stringify({
+            list_1: {
+              name: 'list_1',
+              size: idListContent.length,
+              url: api + '/list_1',
+              creationTime: 1,
+              fileID: 'file_1',
+            },
+          });
+        } else if (path.includes('/list_1')) {
+          const range = /bytes=(\d+)-/.exec(String(req.headers['range']));
+          body = idListContent.slice(Number(range?.[1] ?? 0));
+        }
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+        });
+        res.end(body);
+      });
+    });
+    api = (await StatsigTestUtils.startServer(server)) + '/v1';
+  });
+
+  afterAll(async () => {
+    await StatsigTestUtils.stopServer(server);
+  });
+
+  beforeEach(() => {
+    specsTime = 1000;
+    gates = [];
+    idListContent = '+a\n+b\n';
+    requests = {};
+    const channel = new MessageChannel();
+    port1 = channel.port1;
+    port2 = channel.port2;
+    instances = [];
+  });
+
+  afterEach(() => {
+    instances.forEach((instance) => instance.shutdown());
+    port1.close();
+  });
+
+  async function initialize(
+    secretKey: string,
+    options: StatsigOptions,
+  ): Promise<StatsigServer> {
+    const instance = new StatsigServer(secretKey, {
+      api,
+      disableDiagnostics: true,
+      ...options,
+    });
+    instances.push(instance);
+    await instance.initializeAsync();
+    return instance;
+  }
+
+  function leaderOptions(
+    options: Partial<StatsigOptions['specsSharing']> = {},
+  ): StatsigOptions {
+    return {
+      specsSharing: {
+        role: 'leader',
+        channels: [port1],
+        heartbeatIntervalMs: 20,
+        ...options,
+      },
+    };
+  }
+
+  function followerOptions(
+    options: Partial<StatsigOptions['specsSharing']> = {},
+  ): StatsigOptions {
+    return {
+      specsSharing: {
+        role: 'follower',
+        channels: [port2],
+        heartbeatIntervalMs: 20,
+        leaderTimeoutMs: 200,
+        ...options,
+      },
+    };
+  }
+
+  function specStore(instance: StatsigServer) {
+    return StatsigTestUtils.getSpecStore(instance);
+  }
+
+  it('initializes followers from the leader and keeps them updated', async () => {
+    gates = [exampleConfigSpecs.gate];
+    const leader = await initialize('secret-leader', leaderOptions());
+    const follower = await initialize('secret-follower', followerOptions());
+
+    expect(requests['secret-follower']).toBeUndefined();
+    expect(await follower.checkGate(user, 'nfl_gate')).toBe(true);
+    expect(specStore(follower).getLastUpdateTime()).toBe(1000);
+    // A specs broadcast can complete initialize before the snapshot arrives
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getIDList('list_1') != null,
+    );
+    expect(specStore(follower).getIDList('list_1')).toEqual(
+      expect.objectContaining({
+        ids: CompactIDSet.fromIDs(['a', 'b']),
+        readBytes: 6,
+        fileID: 'file_1',
+      }),
+    );
+    expect(specStore(follower)['syncTimer']).toBeNull();
+    expect(specStore(follower)['idListsSyncTimer']).toBeNull();
+
+    specsTime = 2000;
+    gates = [];
+    idListContent += '-a\n+c\n';
+    await specStore(leader).syncValues();
+    await specStore(leader).syncIdLists();
+
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getLastUpdateTime() === 2000,
+    );
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getIDList('list_1')?.readBytes === 12,
+    );
+    expect(await follower.checkGate(user, 'nfl_gate')).toBe(false);
+    expect(specStore(follower).getIDList('list_1')?.ids).toEqual(
+      CompactIDSet.fromIDs(['b', 'c']),
+    );
+    expect(requests['secret-follower']).toBeUndefined();
+  });
+
+  it('shares rollbacks with followers', async () => {
+    const leader = await initialize('secret-leader', leaderOptions());
+    const follower = await initialize('secret-follower', followerOptions());
+    specsTime = 2000;
+    await specStore(leader).syncValues();
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getLastUpdateTime() === 2000,
+    );
+
+    expect(leader.rollbackSpecs(1000)).toBe(true);
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getLastUpdateTime() === 1000,
+    );
+  });
+
+  it('syncs on its own while the leader is gone', async () => {
+    const leader = await initialize('secret-leader', leaderOptions());
+    const follower = await initialize('secret-follower', followerOptions());
+    expect(specStore(follower)['syncTimer']).toBeNull();
+
+    leader.shutdown();
+    await StatsigTestUtils.waitFor(() => requests['secret-follower'] > 0);
+    expect(specStore(follower)['syncTimer']).not.toBeNull();
+    expect(specStore(follower)['idListsSyncTimer']).not.toBeNull();
+
+    await initialize('secret-leader', leaderOptions());
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower)['syncTimer'] == null,
+    );
+    expect(specStore(follower)['idListsSyncTimer']).toBeNull();
+  });
+
+  it('initializes from the network without a leader', async () => {
+    const follower = await initialize('secret-follower', followerOptions());
+
+    expect(requests['secret-follower']).toBeGreaterThan(0);
+    expect(specStore(follower).getLastUpdateTime()).toBe(1000);
+    expect(specStore(follower)['syncTimer']).not.toBeNull();
+  });
+
+  it('initializes a follower that starts with the leader on an unbuffered channel', async () => {
+    gates = [exampleConfigSpecs.gate];
+    const [leaderChannel, followerChannel] = unbufferedChannels();
+    const start = Date.now();
+    const [, follower] = await Promise.all([
+      initialize('secret-leader', leaderOptions({ channels: [leaderChannel] })),
+      initialize(
+        'secret-follower',
+        followerOptions({ channels: [followerChannel], leaderTimeoutMs: 5000 }),
+      ),
+    ]);
+
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(requests['secret-follower']).toBeUndefined();
+    expect(await follower.checkGate(user, 'nfl_gate')).toBe(true);
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getIDList('list_1') != null,
+    );
+  });
+
+  it('marks a shared list synced only once its contents arrive', async () => {
+    const follower = await initialize('secret-follower', followerOptions());
+    const syncTime = specStore(follower)['idListSyncTimes']['list_1'];
+    expect(syncTime).toBeDefined();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    port1.postMessage({
+      statsigSpecsSharing: 'id_list_names',
+      names: ['list_1'],
+    });
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower)['syncTimer'] == null,
+    );
+    expect(specStore(follower)['idListSyncTimes']['list_1']).toBe(syncTime);
+
+    port1.postMessage({
+      statsigSpecsSharing: 'id_list',
+      idList: {
+        name: 'list_1',
+        url: api + '/list_1',
+        fileID: 'file_1',
+        creationTime: 1,
+        readBytes: 12,
+        reset: false,
+        data: '-a\n+c\n',
+      },
+    });
+    await StatsigTestUtils.waitFor(
+      () => specStore(follower).getIDList('list_1')?.readBytes === 12,
+    );
+    expect(specStore(follower)['idListSyncTimes']['list_1']).toBeGreaterThan(
+      syncTime,
+    );
+  });
+
+  it('stops watching the specs file once the leader is back', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'statsig-share-'));
+    const specsFilePath = path.join(directory, 'specs.json');
+    fs.writeFileSync(specsFilePath, makeConfigSpecResponse({ time: 1000 }));
+    try {
+      const follower = await initialize('secret-follower', {
+        ...followerOptions(),
+        specsFilePath,
+      });
+      expect(specStore(follower)['stopWatchingSpecsFile']).not.toBeNull();
+
+      await initialize('secret-leader', leaderOptions());
+      await StatsigTestUtils.waitFor(
+        () => specStore(follower)['stopWatchingSpecsFile'] == null,
+      );
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,223 @@
+import * as http from 'http';
+import Statsig, { StatsigOptions } from '../index';
+import { LogEventData } from '../LogEvent';
+import StatsigTestUtils, { makeConfigSpecResponse } from './StatsigTestUtils';
+
+const user = { userID: 'a-user', email: 'someone@nfl.com' };
+
+describe('config spec streaming', () => {
+  let server: http.Server;
+  let api: string;
+  let streams: http.ServerResponse[] = [];
+  let streamRequests: http.IncomingHttpHeaders[] = [];
+  let dcsRequests = 0;
+  let rejectStreams = false;
+  let streamPrelude: string | null = null;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/stream') {
+        streamRequests.push(req.headers);
+        if (rejectStreams) {
+          res.writeHead(503);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        if (streamPrelude != null) {
+          // Drops the connection after the prelude
+          res.end(streamPrelude);
+          return;
+        }
+        res.write(': connected\n\n');
+        streams.push(res);
+        return;
+      }
+      req.resume();
+      req.on('end', () => {
+        let body = '{}';
+        if (req.url?.includes('/download_config_specs')) {
+          dcsRequests++;
+          body = makeConfigSpecResponse({ time: 1000, feature_gates: [] });
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(body);
+      });
+    });
+    api = await StatsigTestUtils.startServer(server);
+  });
+
+  afterAll(async () => {
+    await StatsigTestUtils.stopServer(server);
+  });
+
+  beforeEach(() => {
+    streams = [];
+    streamRequests = [];
+    dcsRequests = 0;
+    rejectStreams = false;
+    streamPrelude = null;
+  });
+
+  afterEach(() => {
+    Statsig.shutdown();
+  });
+
+  function initialize(options: StatsigOptions = {}) {
+    return StatsigTestUtils.initialize({
+      api: api + '/v1',
+      initStrategyForIDLists: 'none',
+      disableIdListsSync: true,
+      specsStreaming: {
+        url: api + '/stream',
+        initialReconnectDelayMs: 20,
+      },
+      ...options,
+    });
+  }
+
+  function specStore() {
+    return StatsigTestUtils.getSpecStore();
+  }
+
+  function streamMarkers() {
+    const queue: LogEventData[] = StatsigTestUtils.getLogger().queue;
+    return queue
+      .filter((event) => event.eventName === 'statsig::diagnostics')
+      .map((event) => (event.metadata as any).markers)
+      .reduce((all, markers) => all.concat(markers), [])
+      .filter((marker) => marker.key === 'config_spec_stream');
+  }
+
+  it('applies pushed specs and stops polling while connected', async () => {
+    await initialize();
+    await StatsigTestUtils.waitFor(() => streams.length === 1);
+    expect(streamRequests[0]['statsig-api-key']).toEqual('secret-key');
+    expect(streamRequests[0]['accept']).toEqual('text/event-stream');
+    expect(await Statsig.checkGate(user, 'nfl_gate')).toBe(false);
+    await StatsigTestUtils.waitFor(() => specStore()['syncTimer'] == null);
+
+    // Split across writes to check partial lines are buffered
+    const payload = makeConfigSpecResponse({ time: 2000 });
+    streams[0].write('event: ping\ndata: {}\n\n');
+    streams[0].write('data: ' + payload.slice(0, 20));
+    streams[0].write(payload.slice(20) + '\n\n');
+    await StatsigTestUtils.waitFor(
+      () => specStore().getLastUpdateTime() === 2000,
+    );
+
+    expect(await Statsig.checkGate(user, 'nfl_gate')).toBe(true);
+    expect(dcsRequests).toBe(1);
+  });
+
+  it('joins a \\r\\n line break split across writes', async () => {
+    await initialize();
+    await StatsigTestUtils.waitFor(() => streams.length === 1);
+
+    // Two data lines of one event, the JSON stays valid once they are joined
+    const payload = makeConfigSpecResponse({ time: 2000 });
+    streams[0].write('data: ' + payload.slice(0, 1) + '\r');
+    streams[0].write('\ndata: ' + payload.slice(1) + '\r\n\r\n');
+    await StatsigTestUtils.waitFor(
+      () => specStore().getLastUpdateTime() === 2000,
+    );
+
+    expect(await Statsig.checkGate(user, 'nfl_gate')).toBe(true);
+  });
+
+  it('falls back to polling and reconnects after a disconnect', async () => {
+    await initialize({ disableDiagnostics: false });
+    await StatsigTestUtils.waitFor(() => streams.length === 1);
+    await StatsigTestUtils.waitFor(() => specStore()['syncTimer'] == null);
+
+    rejectStreams = true;
+    streams[0].end();
+    await StatsigTestUtils.waitFor(() => streamRequests.length >= 3);
+    expect(specStore()['syncTimer']).not.toBeNull();
+    expect(specStore()['specsStream']?.isConnected()).toBe(false);
+
+    rejectStreams = false;
+    await StatsigTestUtils.waitFor(() => streams.length === 2);
+    await StatsigTestUtils.waitFor(() => dcsRequests === 2);
+    expect(specStore()['syncTimer']).toBeNull();
+
+    const markers = streamMarkers();
+    expect(markers[0].value).toBe(200);
+    expect(markers[1].value).toBe(false);
+    expect(markers[1].metadata.reason).toBe('closed');
+    expect(markers[2].value).toBe(false);
+    expect(markers[2].metadata.reason).toContain('failed with status 503');
+    expect(markers[2].metadata.reconnectDelayMs).toBeGreaterThanOrEqual(
+      markers[1].metadata.reconnectDelayMs / 2,
+    );
+    expect(markers[markers.length - 1].value).toBe(200);
+  });
+
+  it('keeps polling where AbortController is missing', async () => {
+    const abortController = global.AbortController;
+    delete (global as any).AbortController;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      await initialize();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(streamRequests.length).toBe(0);
+      expect(specStore()['syncTimer']).not.toBeNull();
+      expect(warn).toHaveBeenCalledWith(
+        'statsigSDK> Config spec streaming needs AbortController, polling instead.',
+      );
+    } finally {
+      global.AbortController = abortController;
+      warn.mockRestore();
+    }
+  });
+
+  function disconnectMarkers() {
+    return streamMarkers()
+      .filter((marker) => marker.value === false)
+      .map((marker) => marker.metadata);
+  }
+
+  it('keeps backing off until a connection delivers an event', async () => {
+    streamPrelude = ': connected\n\n';
+    await initialize({ disableDiagnostics: false });
+    await StatsigTestUtils.waitFor(() => disconnectMarkers().length >= 4);
+    // Each connection was accepted, but dropped without an event
+    expect(disconnectMarkers()[3].reconnectDelayMs).toBeGreaterThanOrEqual(80);
+
+    streamPrelude = 'event: ping\ndata: {}\n\n';
+    const disconnects = disconnectMarkers().length;
+    await StatsigTestUtils.waitFor(
+      () => disconnectMarkers().length > disconnects + 1,
+    );
+    const delays = disconnectMarkers()
+      .slice(disconnects + 1)
+      .map((metadata) => metadata.reconnectDelayMs);
+    expect(delays[0]).toBeLessThanOrEqual(20);
+  });
+
+  it('falls back to polling when the stream goes idle', async () => {
+    await initialize({
+      disableDiagnostics: false,
+      specsStreaming: {
+        url: api + '/stream',
+        initialReconnectDelayMs: 20,
+        idleTimeoutMs: 100,
+      },
+    });
+    await StatsigTestUtils.waitFor(() => streams.length === 1);
+    await StatsigTestUtils.waitFor(() => disconnectMarkers().length === 1);
+
+    expect(disconnectMarkers()[0].reason).toBe('idle timeout');
+    expect(specStore()['specsStream']?.isConnected()).toBe(false);
+    expect(specStore()['syncTimer']).not.toBeNull();
+    await StatsigTestUtils.waitFor(() => streams.length === 2);
+  });
+
+  it('is not started when rulesets sync is disabled', async () => {
+    await initialize({ disableRulesetsSync: true });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(streamRequests.length).toBe(0);
+  });
+});
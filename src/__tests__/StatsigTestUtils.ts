@@ -1,7 +1,31 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
 import { ActionType, MarkerMetadata, StepType, KeyType } from '../Diagnostics';
 import Evaluator from '../Evaluator';
+import Statsig, { StatsigOptions } from '../index';
+import { LogEventData } from '../LogEvent';
 import LogEventProcessor from '../LogEventProcessor';
+import SpecStore from '../SpecStore';
 import StatsigInstanceUtils from '../StatsigInstanceUtils';
+import StatsigServer from '../StatsigServer';
+
+const exampleConfigSpecs = require('./jest.setup');
+
+// A download_config_specs payload with the example gate, config and layer
+export function makeConfigSpecResponse(
+  overrides: Record<string, unknown> = {},
+): string {
+  return JSON.stringify({
+    time: Date.now(),
+    feature_gates: [exampleConfigSpecs.gate],
+    dynamic_configs: [exampleConfigSpecs.config],
+    layer_configs: [exampleConfigSpecs.unallocated_layer],
+    has_updates: true,
+    ...overrides,
+  });
+}
+
+export const CONFIG_SPEC_RESPONSE = makeConfigSpecResponse();
 
 export default abstract class StatsigTestUtils {
   static getEvaluator(): any {
@@ -13,6 +37,76 @@ export default abstract class StatsigTestUtils {
     // @ts-ignore
     return StatsigInstanceUtils.getInstance()?._logger ?? null;
   }
+
+  // Private members are reached with brackets, e.g. store['syncTimer']
+  static getSpecStore(
+    instance: StatsigServer | null = StatsigInstanceUtils.getInstance(),
+  ): SpecStore {
+    if (instance == null) {
+      throw new Error('Statsig is not initialized');
+    }
+    return instance['_evaluator']['store'];
+  }
+
+  // Answers the mocked node-fetch with configSpecs, collecting the uploaded
+  // events into the returned array. The test file mocks node-fetch itself
+  static mockNetwork(configSpecs = CONFIG_SPEC_RESPONSE): LogEventData[] {
+    const events: LogEventData[] = [];
+    const fetch = require('node-fetch');
+    fetch.mockImplementation((url: string, params: { body: string }) => {
+      if (url.includes('download_config_specs')) {
+        return Promise.resolve({
+          ok: true,
+          text: () => Promise.resolve(configSpecs),
+        });
+      }
+      if (url.includes('log_event')) {
+        events.push(...JSON.parse(params.body)['events']);
+      }
+      return Promise.resolve({
+        ok: true,
+        text: () => Promise.resolve('{}'),
+        json: () => Promise.resolve({}),
+      });
+    });
+    return events;
+  }
+
+  static async initialize(options: StatsigOptions = {}): Promise<void> {
+    StatsigInstanceUtils.setInstance(null);
+    await Statsig.initialize('secret-key', {
+      disableDiagnostics: true,
+      ...options,
+    });
+  }
+
+  // Listens on a free local port, resolving to the server's base url
+  static async startServer(server: http.Server): Promise<string> {
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  static async stopServer(server: http.Server): Promise<void> {
+    // Open streams and keep-alive sockets would keep close() waiting
+    (server as any).closeAllConnections?.();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  // Polls until the condition holds, failing after timeoutMs
+  static async waitFor(
+    condition: () => boolean,
+    timeoutMs = 3000,
+  ): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Timed out waiting for the condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
 }
 
 export function assertMarkerEqual(
@@ -769,7 +769,7 @@ describe('Verify behavior of top level index functions', () => {
   test('Verify shutdown makes the SDK not ready and clears all the timers', async () => {
     // @ts-ignore
     const fetch = require('node-fetch');
-    expect.assertions(6);
+    expect.assertions(5);
 
     return Statsig.initialize(secretKey).then(() => {
       const logger = StatsigTestUtils.getLogger();
@@ -782,7 +782,6 @@ describe('Verify behavior of top level index functions', () => {
       expect(StatsigInstanceUtils.getInstance()._ready).toBe(false);
 
       expect(logger.flushTimer).toBeNull();
-      expect(logger.deduperTimer).toBeNull();
       expect(evaluator.store.syncTimer).toBeNull();
       expect(evaluator.store.idListsSyncTimer).toBeNull();
     });
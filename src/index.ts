@@ -1,34 +1,105 @@
 import DynamicConfig from './DynamicConfig';
 import { StatsigUninitializedError } from './Errors';
-import { ClientInitializeResponse } from './Evaluator';
+import { ClientInitializeResponse, StatsigOverrides } from './Evaluator';
+import {
+  ConditionTrace,
+  EvaluationExplanation,
+  RuleTrace,
+  SpecTrace,
+} from './EvaluationTrace';
 import { FeatureGate } from './FeatureGate';
-import { AdapterResponse, IDataAdapter } from './interfaces/IDataAdapter';
+import { NDJSONFileEventExporter, StdoutEventExporter } from './EventExporters';
+import FileDataAdapter, { FileDataAdapterOptions } from './FileDataAdapter';
+import {
+  AdapterResponse,
+  DataAdapterKey,
+  IDataAdapter,
+} from './interfaces/IDataAdapter';
+import { IEventExporter } from './interfaces/IEventExporter';
 import Layer from './Layer';
+import { LogEventData } from './LogEvent';
 import OutputLogger from './OutputLogger';
+import { PersistentEventQueueOptions } from './PersistentEventQueue';
+import { SpecsSharingChannel, SpecsSharingOptions } from './SpecsSharing';
+import { SpecsStreamingOptions } from './SpecsStream';
+import {
+  EntityChanges,
+  ModifiedSpec,
+  SpecChangedField,
+  SpecsChangedEvent,
+  SpecsChangedListener,
+} from './SpecsDiff';
 import StatsigInstanceUtils from './StatsigInstanceUtils';
 import {
+  BeforeLogEventHook,
+  CustomConditionEvaluator,
+  CustomConditionResult,
+  CustomOperator,
+  EventSamplingRule,
+  ExposureDedupeStrategy,
+  FetchImplementation,
+  HttpAgentOptions,
+  IDListFile,
   RulesUpdatedCallback,
   StatsigEnvironment,
   InitStrategy,
   StatsigOptions,
 } from './StatsigOptions';
 import StatsigServer, {
+  AllEvaluations,
+  AllEvaluationsOptions,
   ClientInitializeResponseOptions,
+  EvaluationEntityType,
   LogEventObject,
 } from './StatsigServer';
 import { StatsigUser } from './StatsigUser';
+import { IDListStats } from './utils/IDListUtil';
 
 export {
+  AllEvaluations,
+  AllEvaluationsOptions,
+  BeforeLogEventHook,
+  ConditionTrace,
+  CustomConditionEvaluator,
+  CustomConditionResult,
+  CustomOperator,
+  DataAdapterKey,
   DynamicConfig,
+  EntityChanges,
+  EvaluationEntityType,
+  EvaluationExplanation,
+  EventSamplingRule,
+  ExposureDedupeStrategy,
+  FetchImplementation,
+  FileDataAdapter,
+  FileDataAdapterOptions,
+  HttpAgentOptions,
+  IDListFile,
+  IDListStats,
   Layer,
+  LogEventData,
   LogEventObject,
+  ModifiedSpec,
+  PersistentEventQueueOptions,
+  RuleTrace,
+  SpecChangedField,
+  SpecsChangedEvent,
+  SpecsChangedListener,
+  SpecsSharingChannel,
+  SpecsSharingOptions,
+  SpecsStreamingOptions,
+  SpecTrace,
   RulesUpdatedCallback,
   StatsigUser,
   StatsigOptions,
+  StatsigOverrides,
   StatsigEnvironment,
   InitStrategy,
   IDataAdapter,
   AdapterResponse,
+  IEventExporter,
+  NDJSONFileEventExporter,
+  StdoutEventExporter,
   StatsigServer,
 };
 
@@ -36,9 +107,13 @@ export const Statsig = {
   // These need to be exported, and we currently export a top level Statsig object
   // So in order to not make a breaking change, they must be exported as members of
   // that top level object
+  DataAdapterKey,
   DynamicConfig,
+  FileDataAdapter,
   Layer,
+  NDJSONFileEventExporter,
   StatsigServer,
+  StdoutEventExporter,
 
   /**
    * Initializes the statsig server SDK.
@@ -260,6 +335,74 @@ export const Statsig = {
     );
   },
 
+  /**
+   * Evaluates every gate, config, experiment and layer for the given user in one pass.
+   * No exposure events will be logged unless options.exposureLogging is true.
+   *
+   * @param {StatsigUser} user - the user to evaluate
+   * @param {AllEvaluationsOptions} [options={}] - filters by entity type and name prefix, and exposure logging
+   * @returns {AllEvaluations} - the feature gates, dynamic configs and layers for the user, keyed by name
+   * @throws Error if initialize() was not called first
+   */
+  getAllEvaluations(
+    user: StatsigUser,
+    options: AllEvaluationsOptions = {},
+  ): AllEvaluations {
+    return this._enforceServer().getAllEvaluations(user, options);
+  },
+
+  /**
+   * Explains how a gate was evaluated for the given user: every rule and condition visited,
+   * the pass percentage bucket and any nested gate checks.
+   * No exposure event will be logged.
+   *
+   * @param {StatsigUser} user - the user to evaluate the gate for
+   * @param {string} gateName - the name of the gate to explain
+   * @returns {EvaluationExplanation | null} - the result of the evaluation along with its trace
+   * @throws Error if initialize() was not called first
+   * @throws Error if the gateName is not provided or not a non-empty string
+   */
+  explainGate(
+    user: StatsigUser,
+    gateName: string,
+  ): EvaluationExplanation | null {
+    return this._enforceServer().explainGate(user, gateName);
+  },
+
+  /**
+   * Explains how a dynamic config or experiment was evaluated for the given user.
+   * No exposure event will be logged.
+   *
+   * @param {StatsigUser} user - the user to evaluate the config for
+   * @param {string} configName - the name of the config or experiment to explain
+   * @returns {EvaluationExplanation | null} - the result of the evaluation along with its trace
+   * @throws Error if initialize() was not called first
+   * @throws Error if the configName is not provided or not a non-empty string
+   */
+  explainConfig(
+    user: StatsigUser,
+    configName: string,
+  ): EvaluationExplanation | null {
+    return this._enforceServer().explainConfig(user, configName);
+  },
+
+  /**
+   * Explains how a layer was evaluated for the given user, including the experiment it delegated to.
+   * No exposure event will be logged.
+   *
+   * @param {StatsigUser} user - the user to evaluate the layer for
+   * @param {string} layerName - the name of the layer to explain
+   * @returns {EvaluationExplanation | null} - the result of the evaluation along with its trace
+   * @throws Error if initialize() was not called first
+   * @throws Error if the layerName is not provided or not a non-empty string
+   */
+  explainLayer(
+    user: StatsigUser,
+    layerName: string,
+  ): EvaluationExplanation | null {
+    return this._enforceServer().explainLayer(user, layerName);
+  },
+
   /**
    * Log an event for data analysis and alerting or to measure the impact of an experiment
    *
@@ -343,6 +486,21 @@ export const Statsig = {
     this._enforceServer().overrideLayer(layerName, value, userID);
   },
 
+  /**
+   * Runs the given function with gate, config and layer overrides that only
+   * apply within its async context, e.g. a single request. Unlike overrideGate,
+   * overrideConfig and overrideLayer, they do not affect concurrent work.
+   * Overrides from an enclosing runWithOverrides call still apply unless replaced.
+   *
+   * @param {StatsigOverrides} overrides - the gate values and config and layer values to use, by name
+   * @param {function(): T} fn - the function to run
+   * @returns {T} - the value returned by fn
+   * @throws Error if the overrides are not an object or fn is not a function
+   */
+  runWithOverrides<T>(overrides: StatsigOverrides, fn: () => T): T {
+    return this._enforceServer().runWithOverrides(overrides, fn);
+  },
+
   /**
    * Flushes all the events that are currently in the queue to Statsig.
    */
@@ -355,8 +513,8 @@ export const Statsig = {
   },
 
   /**
-  * Clears all gate overrides
-  */
+   * Clears all gate overrides
+   */
   clearAllGateOverrides(): void {
     this._enforceServer().clearAllGateOverrides();
   },
@@ -420,6 +578,91 @@ export const Statsig = {
     return this._enforceServer().getLayerList();
   },
 
+  /**
+   * Registers a listener that is called each time a sync changes the gates, configs or layers.
+   * The listener receives the added, removed and modified entities, with the old and new
+   * version and the fields that changed (rules, defaultValue, enabled, isActive)
+   *
+   * @param {SpecsChangedListener} listener - called with the changes after each update
+   * @returns {() => void} - a function that removes the listener
+   * @throws Error if the listener is not a function
+   */
+  onSpecsChanged(listener: SpecsChangedListener): () => void {
+    return this._enforceServer().onSpecsChanged(listener);
+  },
+
+  /**
+   * Gets how many exposures were suppressed as duplicates since initialize, by event name
+   * (gate_exposure, config_exposure, layer_exposure). Add these to the logged exposure
+   * counts to reconcile them with the number of checks
+   *
+   * @returns {Record<string, number>}
+   */
+  getSuppressedExposureCounts(): Record<string, number> {
+    return this._enforceServer().getSuppressedExposureCounts();
+  },
+
+  /**
+   * Gets the ID lists currently held by the SDK, with their file, size in IDs
+   * and when a sync last brought each of them up to date
+   *
+   * @returns {IDListStats[]}
+   */
+  getIDListStats(): IDListStats[] {
+    return this._enforceServer().getIDListStats();
+  },
+
+  /**
+   * Checks whether a unit ID is in an ID list, hashing it the same way
+   * in_segment_list conditions do
+   *
+   * @param {string} listName - the name of the ID list
+   * @param {string} unitID - the unit ID to look up, e.g. a userID
+   * @returns {boolean} - false if the list is not loaded
+   * @throws Error if the list name or unit ID is not a string
+   */
+  isInIDList(listName: string, unitID: string): boolean {
+    return this._enforceServer().isInIDList(listName, unitID);
+  },
+
+  /**
+   * Gets the times of the config spec snapshots kept for rollbackSpecs, newest first
+   *
+   * @returns {number[]}
+   */
+  getSpecsSnapshotTimes(): number[] {
+    return this._enforceServer().getSpecsSnapshotTimes();
+  },
+
+  /**
+   * Restores the newest kept config specs at or before the given time and pins them.
+   * Evaluations report the 'Pinned' reason until unpinSpecs is called
+   *
+   * @param {number} time - the spec time to roll back to, see getSpecsSnapshotTimes
+   * @returns {boolean} - false if no kept snapshot is old enough
+   * @throws Error if the time is not a number
+   */
+  rollbackSpecs(time: number): boolean {
+    return this._enforceServer().rollbackSpecs(time);
+  },
+
+  /**
+   * Keeps the current config specs in place, ignoring background and manual syncs
+   * until unpinSpecs is called. Evaluations report the 'Pinned' reason meanwhile
+   */
+  pinSpecs(): void {
+    return this._enforceServer().pinSpecs();
+  },
+
+  /**
+   * Resumes syncing after pinSpecs or rollbackSpecs, starting with an immediate sync
+   *
+   * @returns {Promise<void>} - resolves once the sync finishes
+   */
+  unpinSpecs(): Promise<void> {
+    return this._enforceServer().unpinSpecs();
+  },
+
   syncConfigSpecs(): Promise<void> {
     return this._enforceServer().syncStoreSpecs();
   },
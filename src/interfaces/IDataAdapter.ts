@@ -29,6 +29,15 @@ export interface IDataAdapter {
    */
   set(key: string, value: string, time?: number): Promise<void>;
 
+  /**
+   * Adds to the data stored for a key. When implemented, ID list updates
+   * are persisted by appending only the added and removed IDs
+   * @param key - Key of stored item to add to
+   * @param value - Data to add at the end of the stored value
+   * @param time - Time of update
+   */
+  append?(key: string, value: string, time?: number): Promise<void>;
+
   /**
    * Startup tasks to run before any fetch/update calls can be made
    */
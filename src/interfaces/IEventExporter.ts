@@ -0,0 +1,40 @@
+import { LogEventData } from '../LogEvent';
+
+/**
+ * A sink that receives every batch of events the SDK flushes,
+ * alongside the upload to Statsig.
+ * Each exporter is retried on its own, and its failures never affect the
+ * upload or the other exporters.
+ */
+export interface IEventExporter {
+  /**
+   * Delivers a flushed batch of events. A rejected promise is retried.
+   * @param events - The events in the batch, which must not be mutated
+   */
+  export(events: LogEventData[]): Promise<void>;
+
+  /**
+   * How many times a failed export is retried. Retries happen after flush
+   * returns and stop at shutdown.
+   * Defaults to the postLogsRetryLimit option
+   */
+  retryLimit?: number;
+
+  /**
+   * Milliseconds to wait before retrying a failed export.
+   * Defaults to the postLogsRetryBackoff option
+   */
+  retryBackoffMs?: number;
+
+  /**
+   * Milliseconds an export or shutdown may take before it is abandoned, so a
+   * stuck exporter cannot hold up flush and shutdown. A timed out export is not
+   * retried. Defaults to 5 seconds
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cleanup tasks to run when statsig is shutdown
+   */
+  shutdown?(): Promise<void>;
+}
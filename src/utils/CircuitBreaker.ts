@@ -0,0 +1,128 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+type Circuit = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // Requests are held back until this time, while open or after a Retry-After
+  blockedUntil: number;
+  probeInFlight: boolean;
+};
+
+export type CircuitStateListener = (
+  endpoint: string,
+  state: CircuitState,
+  consecutiveFailures: number,
+) => void;
+
+/**
+ * Tracks the health of each endpoint separately.
+ * After failureThreshold consecutive failures the circuit opens and requests
+ * are refused for cooldownMs. Then a single probe request is let through
+ * (half open): its success closes the circuit, its failure opens it again.
+ * A failureThreshold of 0 never opens the circuit, Retry-After is still honored.
+ */
+export default class CircuitBreaker {
+  private circuits: Record<string, Circuit> = {};
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private onStateChange: CircuitStateListener;
+
+  public constructor(
+    failureThreshold: number,
+    cooldownMs: number,
+    onStateChange: CircuitStateListener,
+  ) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.onStateChange = onStateChange;
+  }
+
+  public canRequest(endpoint: string): boolean {
+    const circuit = this.circuits[endpoint];
+    if (circuit == null) {
+      return true;
+    }
+    if (Date.now() < circuit.blockedUntil) {
+      return false;
+    }
+    if (circuit.state === 'open') {
+      circuit.probeInFlight = true;
+      this.setState(endpoint, circuit, 'half_open');
+      return true;
+    }
+    if (circuit.state === 'half_open') {
+      if (circuit.probeInFlight) {
+        return false;
+      }
+      circuit.probeInFlight = true;
+    }
+    return true;
+  }
+
+  public recordSuccess(endpoint: string): void {
+    const circuit = this.circuits[endpoint];
+    if (circuit == null) {
+      return;
+    }
+    circuit.consecutiveFailures = 0;
+    circuit.probeInFlight = false;
+    if (circuit.state !== 'closed') {
+      this.setState(endpoint, circuit, 'closed');
+    }
+  }
+
+  public recordFailure(endpoint: string): void {
+    const circuit = this.getCircuit(endpoint);
+    circuit.consecutiveFailures++;
+    circuit.probeInFlight = false;
+    const shouldOpen =
+      circuit.state === 'half_open' ||
+      (circuit.state === 'closed' &&
+        this.failureThreshold > 0 &&
+        circuit.consecutiveFailures >= this.failureThreshold);
+    if (shouldOpen) {
+      circuit.blockedUntil = Math.max(
+        circuit.blockedUntil,
+        Date.now() + this.cooldownMs,
+      );
+      this.setState(endpoint, circuit, 'open');
+    }
+  }
+
+  // Ends a request that has no outcome, so a probe cannot stay in flight forever
+  public release(endpoint: string): void {
+    const circuit = this.circuits[endpoint];
+    if (circuit != null) {
+      circuit.probeInFlight = false;
+    }
+  }
+
+  // Holds back requests to the endpoint until the given time, e.g. for Retry-After
+  public blockUntil(endpoint: string, time: number): void {
+    const circuit = this.getCircuit(endpoint);
+    circuit.blockedUntil = Math.max(circuit.blockedUntil, time);
+  }
+
+  public getState(endpoint: string): CircuitState {
+    return this.circuits[endpoint]?.state ?? 'closed';
+  }
+
+  private getCircuit(endpoint: string): Circuit {
+    let circuit = this.circuits[endpoint];
+    if (circuit == null) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        blockedUntil: 0,
+        probeInFlight: false,
+      };
+      this.circuits[endpoint] = circuit;
+    }
+    return circuit;
+  }
+
+  private setState(endpoint: string, circuit: Circuit, state: CircuitState) {
+    circuit.state = state;
+    this.onStateChange(endpoint, state, circuit.consecutiveFailures);
+  }
+}
@@ -0,0 +1,207 @@
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES: Record<string, number> = {};
+for (let i = 0; i < BASE64_CHARS.length; i++) {
+  BASE64_VALUES[BASE64_CHARS.charAt(i)] = i;
+}
+
+const PACKED_ID_LENGTH = 8;
+// 4 base64 characters, 24 bits
+const HALF_RANGE = 16777216;
+const MIN_PENDING_BEFORE_COMPACTION = 1024;
+
+/**
+ * A set of ID list entries, which are 8 character base64 prefixes of hashed
+ * unit IDs. Each one fits in 48 bits, so they are packed into numbers and kept
+ * in a sorted Float64Array: 8 bytes an entry instead of a string and an object
+ * property. Additions and removals collect in small sets that are merged into
+ * the array once they grow. Entries that are not packable are kept as strings.
+ */
+export default class CompactIDSet {
+  private packed: Float64Array = new Float64Array(0);
+  // Not in packed
+  private added: Set<number> = new Set();
+  // In packed, but deleted since
+  private removed: Set<number> = new Set();
+  private unpackable: Set<string> = new Set();
+
+  public static fromIDs(ids: string[]): CompactIDSet {
+    const set = new CompactIDSet();
+    ids.forEach((id) => set.add(id));
+    set.compact();
+    return set;
+  }
+
+  public has(id: string): boolean {
+    const value = pack(id);
+    if (value == null) {
+      return this.unpackable.has(id);
+    }
+    if (this.added.has(value)) {
+      return true;
+    }
+    return !this.removed.has(value) && this.indexOf(value) !== -1;
+  }
+
+  public add(id: string): void {
+    const value = pack(id);
+    if (value == null) {
+      this.unpackable.add(id);
+      return;
+    }
+    if (this.removed.has(value)) {
+      this.removed.delete(value);
+    } else if (this.indexOf(value) === -1) {
+      this.added.add(value);
+      this.compactIfNeeded();
+    }
+  }
+
+  public delete(id: string): void {
+    const value = pack(id);
+    if (value == null) {
+      this.unpackable.delete(id);
+      return;
+    }
+    if (this.added.has(value)) {
+      this.added.delete(value);
+    } else if (this.indexOf(value) !== -1) {
+      this.removed.add(value);
+      this.compactIfNeeded();
+    }
+  }
+
+  public size(): number {
+    return (
+      this.packed.length -
+      this.removed.size +
+      this.added.size +
+      this.unpackable.size
+    );
+  }
+
+  public forEach(callback: (id: string) => void): void {
+    for (let i = 0; i < this.packed.length; i++) {
+      if (!this.removed.has(this.packed[i])) {
+        callback(unpack(this.packed[i]));
+      }
+    }
+    this.added.forEach((value) => callback(unpack(value)));
+    this.unpackable.forEach((id) => callback(id));
+  }
+
+  public toArray(): string[] {
+    const ids: string[] = [];
+    this.forEach((id) => ids.push(id));
+    return ids;
+  }
+
+  // Bytes held by the packed entries and the pending changes, roughly
+  public getByteSize(): number {
+    let bytes =
+      this.packed.byteLength + (this.added.size + this.removed.size) * 8;
+    this.unpackable.forEach((id) => {
+      bytes += id.length * 2;
+    });
+    return bytes;
+  }
+
+  // Merges the pending additions and removals into the sorted array
+  public compact(): void {
+    if (this.added.size === 0 && this.removed.size === 0) {
+      return;
+    }
+    const additions = new Float64Array(this.added.size);
+    let count = 0;
+    this.added.forEach((value) => {
+      additions[count++] = value;
+    });
+    additions.sort();
+
+    const merged = new Float64Array(
+      this.packed.length - this.removed.size + additions.length,
+    );
+    let i = 0;
+    let j = 0;
+    let k = 0;
+    while (i < this.packed.length || j < additions.length) {
+      if (
+        j >= additions.length ||
+        (i < this.packed.length && this.packed[i] < additions[j])
+      ) {
+        const value = this.packed[i++];
+        if (!this.removed.has(value)) {
+          merged[k++] = value;
+        }
+      } else {
+        merged[k++] = additions[j++];
+      }
+    }
+    this.packed = merged;
+    this.added = new Set();
+    this.removed = new Set();
+  }
+
+  private compactIfNeeded(): void {
+    const pending = this.added.size + this.removed.size;
+    if (
+      pending >= MIN_PENDING_BEFORE_COMPACTION &&
+      pending * 8 >= this.packed.length
+    ) {
+      this.compact();
+    }
+  }
+
+  private indexOf(value: number): number {
+    let low = 0;
+    let high = this.packed.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >>> 1;
+      const current = this.packed[middle];
+      if (current === value) {
+        return middle;
+      }
+      if (current < value) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return -1;
+  }
+}
+
+function pack(id: string): number | null {
+  if (id.length !== PACKED_ID_LENGTH) {
+    return null;
+  }
+  let high = 0;
+  let low = 0;
+  for (let i = 0; i < PACKED_ID_LENGTH; i++) {
+    const bits = BASE64_VALUES[id.charAt(i)];
+    if (bits === undefined) {
+      return null;
+    }
+    if (i < PACKED_ID_LENGTH / 2) {
+      high = high * 64 + bits;
+    } else {
+      low = low * 64 + bits;
+    }
+  }
+  return high * HALF_RANGE + low;
+}
+
+function unpack(value: number): string {
+  let high = Math.floor(value / HALF_RANGE);
+  let low = value % HALF_RANGE;
+  let id = '';
+  for (let i = 0; i < PACKED_ID_LENGTH / 2; i++) {
+    id = BASE64_CHARS.charAt(low % 64) + id;
+    low = Math.floor(low / 64);
+  }
+  for (let i = 0; i < PACKED_ID_LENGTH / 2; i++) {
+    id = BASE64_CHARS.charAt(high % 64) + id;
+    high = Math.floor(high / 64);
+  }
+  return id;
+}
@@ -0,0 +1,58 @@
+// Compare two version strings without the extensions.
+// returns -1, 0, or 1 if first is smaller than, equal to, or larger than second.
+// returns false if any of the version strings is not valid.
+export function versionCompare(first: string, second: string): number | null {
+  if (typeof first !== 'string' || typeof second !== 'string') {
+    return null;
+  }
+  const version1 = removeVersionExtension(first);
+  const version2 = removeVersionExtension(second);
+  if (version1.length === 0 || version2.length === 0) {
+    return null;
+  }
+
+  const parts1 = version1.split('.');
+  const parts2 = version2.split('.');
+  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
+    if (parts1[i] === undefined) {
+      parts1[i] = '0';
+    }
+    if (parts2[i] === undefined) {
+      parts2[i] = '0';
+    }
+    const n1 = Number(parts1[i]);
+    const n2 = Number(parts2[i]);
+    if (
+      typeof n1 !== 'number' ||
+      typeof n2 !== 'number' ||
+      isNaN(n1) ||
+      isNaN(n2)
+    ) {
+      return null;
+    }
+    if (n1 < n2) {
+      return -1;
+    } else if (n1 > n2) {
+      return 1;
+    }
+  }
+  return 0;
+}
+
+function removeVersionExtension(version: string): string {
+  const hyphenIndex = version.indexOf('-');
+  if (hyphenIndex >= 0) {
+    return version.substr(0, hyphenIndex);
+  }
+  return version;
+}
+
+// Try to parse into date as a string first, if not, try unixtime.
+// returns null if neither produces a valid date.
+export function parseDate(input: unknown): Date | null {
+  let date = new Date(input as string);
+  if (isNaN(date.getTime())) {
+    date = new Date(Number(input));
+  }
+  return isNaN(date.getTime()) ? null : date;
+}
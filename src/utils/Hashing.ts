@@ -3,6 +3,43 @@ import { SHA256 } from './Sha256';
 
 export type HashingAlgorithm = 'sha256' | 'djb2' | 'none';
 
+// crypto.hash is a one-shot digest added in Node 20.12, much cheaper than createHash
+type NativeCrypto = typeof import('crypto') & {
+  hash?: (algorithm: string, data: string, outputEncoding: 'buffer') => Buffer;
+};
+
+let nativeCrypto: NativeCrypto | null = null;
+// @ts-ignore
+if (typeof EdgeRuntime !== 'string') {
+  try {
+    const crypto = require('crypto');
+    if (typeof crypto?.createHash === 'function') {
+      nativeCrypto = crypto;
+    }
+  } catch (err) {
+    // Ignore, the JS implementation is used instead
+  }
+}
+
+// The JS implementation differs from standard SHA-256 for the empty string and for
+// some multi-byte inputs that straddle block boundaries. Only non-empty ASCII input
+// hashes natively so existing bucketing never changes.
+const ASCII_REGEX = /^[\x00-\x7F]+$/;
+
+function nativeSha256(input: string): Buffer | null {
+  if (
+    nativeCrypto == null ||
+    typeof input !== 'string' ||
+    !ASCII_REGEX.test(input)
+  ) {
+    return null;
+  }
+  if (typeof nativeCrypto.hash === 'function') {
+    return nativeCrypto.hash('sha256', input, 'buffer');
+  }
+  return nativeCrypto.createHash('sha256').update(input, 'utf8').digest();
+}
+
 function fasthash(value: string): number {
   let hash = 0;
   for (let i = 0; i < value.length; i++) {
@@ -24,11 +61,19 @@ export function djb2HashForObject(
 }
 
 export function sha256HashBase64(name: string) {
+  const digest = nativeSha256(name);
+  if (digest != null) {
+    return digest.toString('base64');
+  }
   const buffer = SHA256(name);
   return Base64.encodeArrayBuffer(buffer.arrayBuffer());
 }
 
 export function sha256Hash(name: string): DataView {
+  const digest = nativeSha256(name);
+  if (digest != null) {
+    return new DataView(digest.buffer, digest.byteOffset, digest.byteLength);
+  }
   return SHA256(name).dataView();
 }
 
@@ -0,0 +1,181 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { URL } from 'url';
+
+import { HttpAgentOptions } from '../StatsigOptions';
+
+type TunnelTarget = {
+  host?: string;
+  hostname?: string;
+  port?: number | string;
+  servername?: string;
+};
+
+type TlsOptions = Pick<tls.ConnectionOptions, 'ca' | 'cert' | 'key'>;
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Reaches the target through an HTTP proxy with a CONNECT tunnel.
+ * Https targets get a TLS session on top of the tunnel, with the configured
+ * CA and client certificate.
+ */
+class TunnelingAgent extends http.Agent {
+  // Checked by http.request against the protocol of the url
+  public protocol: string;
+  public defaultPort: number;
+  private proxy: URL;
+  private secure: boolean;
+  private tlsOptions: TlsOptions;
+  private connectTimeoutMs: number;
+
+  public constructor(
+    proxy: URL,
+    secure: boolean,
+    tlsOptions: TlsOptions,
+    agentOptions: http.AgentOptions,
+    connectTimeoutMs: number,
+  ) {
+    super(agentOptions);
+    this.protocol = secure ? 'https:' : 'http:';
+    this.defaultPort = secure ? 443 : 80;
+    this.proxy = proxy;
+    this.secure = secure;
+    this.tlsOptions = tlsOptions;
+    this.connectTimeoutMs = connectTimeoutMs;
+  }
+
+  public createConnection(
+    options: TunnelTarget,
+    callback: (error: Error | null, socket?: net.Socket) => void,
+  ): void {
+    const host = options.hostname ?? options.host ?? 'localhost';
+    const port = options.port ?? (this.secure ? 443 : 80);
+    const target = `${host}:${port}`;
+    const lines = [`CONNECT ${target} HTTP/1.1`, `Host: ${target}`];
+    if (this.proxy.username) {
+      const credentials =
+        decodeURIComponent(this.proxy.username) +
+        ':' +
+        decodeURIComponent(this.proxy.password);
+      lines.push(
+        `Proxy-Authorization: Basic ${Buffer.from(credentials).toString(
+          'base64',
+        )}`,
+      );
+    }
+
+    const socket = net.connect(
+      Number(this.proxy.port || 80),
+      this.proxy.hostname,
+    );
+    let received = Buffer.alloc(0);
+    const cleanup = () => {
+      socket.setTimeout(0);
+      socket.removeListener('data', onData);
+      socket.removeListener('error', onError);
+      socket.removeListener('timeout', onTimeout);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      callback(error);
+    };
+    // An unresponsive proxy would otherwise hold the socket open for good
+    const onTimeout = () => {
+      cleanup();
+      socket.destroy();
+      callback(
+        new Error(
+          `Proxy did not answer CONNECT ${target} within ${this.connectTimeoutMs}ms`,
+        ),
+      );
+    };
+    const onData = (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      const headerEnd = received.indexOf('\r\n\r\n');
+      if (headerEnd === -1) {
+        return;
+      }
+      cleanup();
+      const statusLine = received.slice(0, received.indexOf('\r\n')).toString();
+      const status = Number(statusLine.split(' ')[1]);
+      if (status !== 200) {
+        socket.destroy();
+        callback(
+          new Error(`Proxy responded with ${status} to CONNECT ${target}`),
+        );
+        return;
+      }
+      if (!this.secure) {
+        callback(null, socket);
+        return;
+      }
+      callback(
+        null,
+        tls.connect({
+          ...this.tlsOptions,
+          socket,
+          servername: options.servername || host,
+        }),
+      );
+    };
+    socket.setTimeout(this.connectTimeoutMs);
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('timeout', onTimeout);
+    socket.write(lines.join('\r\n') + '\r\n\r\n');
+  }
+}
+
+/**
+ * The agents shared by every outbound request, one per protocol
+ */
+export default class HttpAgents {
+  private httpAgent: http.Agent;
+  private httpsAgent: http.Agent;
+
+  public constructor(options: HttpAgentOptions) {
+    const agentOptions: http.AgentOptions = {
+      keepAlive: options.keepAlive ?? false,
+      maxSockets: options.maxSockets ?? Infinity,
+    };
+    const tlsOptions: TlsOptions = {
+      ca: options.ca,
+      cert: options.cert,
+      key: options.key,
+    };
+    if (options.proxyUrl) {
+      const proxy = new URL(options.proxyUrl);
+      const connectTimeoutMs =
+        options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+      this.httpAgent = new TunnelingAgent(
+        proxy,
+        false,
+        {},
+        agentOptions,
+        connectTimeoutMs,
+      );
+      this.httpsAgent = new TunnelingAgent(
+        proxy,
+        true,
+        tlsOptions,
+        agentOptions,
+        connectTimeoutMs,
+      );
+    } else {
+      this.httpAgent = new http.Agent(agentOptions);
+      this.httpsAgent = new https.Agent({ ...agentOptions, ...tlsOptions });
+    }
+  }
+
+  public agentFor(url: URL): http.Agent {
+    return url.protocol === 'https:' ? this.httpsAgent : this.httpAgent;
+  }
+
+  public destroy(): void {
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+  }
+}
@@ -1,13 +1,25 @@
 import { DataAdapterKey, IDataAdapter } from '../interfaces/IDataAdapter';
+import CompactIDSet from './CompactIDSet';
 
 export type IDList = {
   creationTime: number;
   fileID: string;
-  ids: Record<string, boolean>;
+  ids: CompactIDSet;
   readBytes: number;
   url: string;
 };
 
+export type IDListStats = {
+  name: string;
+  fileID: string;
+  creationTime: number;
+  readBytes: number;
+  // Number of IDs in the list
+  size: number;
+  // When a sync last brought the list up to date, 0 if it never did
+  lastSyncTime: number;
+};
+
 export type IDListsLookupResponse = Record<
   string,
   {
@@ -20,6 +32,9 @@ export type IDListsLookupResponse = Record<
 
 export type IDListsLookupBootstrap = string[];
 
+// What a sync downloaded for a list, reset when the list was started over
+export type IDListChanges = Record<string, { data: string; reset: boolean }>;
+
 export default abstract class IDListUtil {
   // Typecheck the response from the network
   static parseLookupResponse(input: unknown): IDListsLookupResponse | null {
@@ -61,13 +76,20 @@ export default abstract class IDListUtil {
 
       const id = line.slice(1).trim();
       if (line.charAt(0) === '+') {
-        lists[name].ids[id] = true;
+        lists[name].ids.add(id);
       } else if (line.charAt(0) === '-') {
-        delete lists[name].ids[id];
+        lists[name].ids.delete(id);
       }
     }
   }
 
+  // The whole list in the ID list file format
+  static toAdditions(ids: CompactIDSet): string {
+    const lines: string[] = [];
+    ids.forEach((id) => lines.push(`+${id}\n`));
+    return lines.join('');
+  }
+
   // Remove any old ID lists that are no longer in the Lookup
   static removeOldIdLists(
     lists: Record<string, IDList>,
@@ -89,20 +111,29 @@ export default abstract class IDListUtil {
     return `${DataAdapterKey.IDLists}::${name}`;
   }
 
+  // Without changes every list is saved in full. With them, only the changed
+  // lists are saved, by appending the downloaded lines when the adapter can
   static async saveToDataAdapter(
     dataAdapter: IDataAdapter,
     lists: Record<string, IDList>,
+    changes?: IDListChanges,
   ): Promise<void> {
     const tasks: Promise<void>[] = [];
 
     for (const [key, value] of Object.entries(lists)) {
-      let ids = '';
-      for (const prop in value.ids) {
-        if (!value.ids.hasOwnProperty(prop)) continue;
-
-        ids += `+${prop}\n`;
+      const storeKey = this.getIdListDataStoreKey(key);
+      const change = changes?.[key];
+      if (changes != null && change == null) {
+        continue;
+      }
+      if (change != null && !change.reset && dataAdapter.append != null) {
+        const data = change.data.endsWith('\n')
+          ? change.data
+          : change.data + '\n';
+        tasks.push(dataAdapter.append(storeKey, data));
+        continue;
       }
-      tasks.push(dataAdapter.set(this.getIdListDataStoreKey(key), ids));
+      tasks.push(dataAdapter.set(storeKey, this.toAdditions(value.ids)));
     }
 
     await Promise.all(tasks);
@@ -0,0 +1,99 @@
+type Entry<K, V> = {
+  key: K;
+  value: V;
+  newer: Entry<K, V> | null;
+  older: Entry<K, V> | null;
+};
+
+/**
+ * A bounded cache that evicts the least recently used entry once full.
+ * Entries form a doubly linked list from most to least recently used, so reads,
+ * writes and evictions are all constant time.
+ */
+export default class LRUCache<K, V> {
+  private readonly maxSize: number;
+  private entries: Map<K, Entry<K, V>> = new Map();
+  private newest: Entry<K, V> | null = null;
+  private oldest: Entry<K, V> | null = null;
+
+  public constructor(maxSize: number) {
+    this.maxSize = Math.max(1, maxSize);
+  }
+
+  public get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+    this.unlink(entry);
+    this.pushNewest(entry);
+    return entry.value;
+  }
+
+  public has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  public set(key: K, value: V): void {
+    const existing = this.entries.get(key);
+    if (existing !== undefined) {
+      existing.value = value;
+      this.unlink(existing);
+      this.pushNewest(existing);
+      return;
+    }
+
+    if (this.entries.size >= this.maxSize && this.oldest != null) {
+      this.delete(this.oldest.key);
+    }
+    const entry: Entry<K, V> = { key, value, newer: null, older: null };
+    this.entries.set(key, entry);
+    this.pushNewest(entry);
+  }
+
+  public delete(key: K): boolean {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      return false;
+    }
+    this.unlink(entry);
+    return this.entries.delete(key);
+  }
+
+  public size(): number {
+    return this.entries.size;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.newest = null;
+    this.oldest = null;
+  }
+
+  private pushNewest(entry: Entry<K, V>) {
+    entry.older = this.newest;
+    entry.newer = null;
+    if (this.newest != null) {
+      this.newest.newer = entry;
+    }
+    this.newest = entry;
+    if (this.oldest == null) {
+      this.oldest = entry;
+    }
+  }
+
+  private unlink(entry: Entry<K, V>) {
+    if (entry.newer != null) {
+      entry.newer.older = entry.older;
+    } else {
+      this.newest = entry.older;
+    }
+    if (entry.older != null) {
+      entry.older.newer = entry.newer;
+    } else {
+      this.oldest = entry.newer;
+    }
+    entry.newer = null;
+    entry.older = null;
+  }
+}
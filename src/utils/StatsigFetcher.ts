@@ -1,15 +1,43 @@
+import { URL } from 'url';
+import * as zlib from 'zlib';
+
+import Diagnostics from '../Diagnostics';
 import {
+  StatsigCircuitOpenError,
   StatsigLocalModeNetworkError,
+  StatsigRequestTimeoutError,
   StatsigTooManyRequestsError,
 } from '../Errors';
-import { ExplicitStatsigOptions, RetryBackoffFunc } from '../StatsigOptions';
+import {
+  ExplicitStatsigOptions,
+  FetchImplementation,
+  RetryBackoffFunc,
+} from '../StatsigOptions';
+import CircuitBreaker, { CircuitState } from './CircuitBreaker';
 import { getSDKType, getSDKVersion } from './core';
 import Dispatcher from './Dispatcher';
+import HttpAgents from './HttpAgents';
 import safeFetch from './safeFetch';
 
 const { v4: uuidv4 } = require('uuid');
 
 const retryStatusCodes = [408, 500, 502, 503, 504, 522, 524, 599];
+const retryAfterStatusCodes = [429, 503];
+// Longer Retry-After values are cut to this, so a bad header cannot stall an endpoint
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+export type RequestOptions = {
+  // Gzips the request body and sets the matching Content-Encoding header
+  compress?: boolean;
+  // Aborts the request when no response arrives in time, 0 waits indefinitely
+  timeoutMs?: number;
+  // Sent along with the Statsig headers
+  headers?: Record<string, string>;
+};
+
+// Whether the endpoint looked healthy on the last attempt, null before any
+export type RequestOutcome = { healthy: boolean | null };
+
 export default class StatsigFetcher {
   private sessionID: string;
   private leakyBucket: Record<string, number>;
@@ -17,6 +45,10 @@ export default class StatsigFetcher {
   private dispatcher: Dispatcher;
   private localMode: boolean;
   private sdkKey: string;
+  private fetchImplementation: FetchImplementation;
+  private agents: HttpAgents | null;
+  private circuitBreaker: CircuitBreaker;
+  private diagnostics: Diagnostics | null = null;
 
   public constructor(secretKey: string, options: ExplicitStatsigOptions) {
     this.sessionID = uuidv4();
@@ -25,6 +57,80 @@ export default class StatsigFetcher {
     this.dispatcher = new Dispatcher(200);
     this.localMode = options.localMode;
     this.sdkKey = secretKey;
+    this.fetchImplementation = options.fetchImplementation ?? safeFetch;
+    this.agents = options.httpAgentOptions
+      ? new HttpAgents(options.httpAgentOptions)
+      : null;
+    this.circuitBreaker = new CircuitBreaker(
+      options.circuitBreakerFailureThreshold,
+      options.circuitBreakerCooldownMs,
+      (endpoint, state, consecutiveFailures) =>
+        this._onCircuitStateChange(endpoint, state, consecutiveFailures),
+    );
+  }
+
+  public setDiagnostics(diagnostics: Diagnostics): void {
+    this.diagnostics = diagnostics;
+  }
+
+  // Sends a request without the Statsig headers, retries or rate limiting,
+  // through the configured fetch implementation and agents
+  public fetch(
+    url: string,
+    params: Record<string, unknown>,
+    timeoutMs = 0,
+  ): Promise<Response> {
+    try {
+      return this._fetchWithTimeout(url, params, timeoutMs);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  private _fetchWithTimeout(
+    url: string,
+    params: Record<string, unknown>,
+    timeoutMs: number,
+  ): Promise<Response> {
+    const agents = this.agents;
+    if (agents != null) {
+      params = { ...params, agent: (parsed: URL) => agents.agentFor(parsed) };
+    }
+    if (timeoutMs <= 0) {
+      return this.fetchImplementation(url, params);
+    }
+
+    // Without AbortController (Node 14) the request cannot be cancelled, so
+    // the timeout only stops waiting for it
+    const controller =
+      typeof AbortController === 'function' ? new AbortController() : null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new StatsigRequestTimeoutError(url, timeoutMs));
+        controller?.abort();
+      }, timeoutMs);
+      timer.unref?.();
+    });
+    // Left unobserved when the body is never read, e.g. for a 304
+    timeout.catch(() => undefined);
+    const clear = () => {
+      if (timer != null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    };
+    const request = this.fetchImplementation(
+      url,
+      controller != null ? { ...params, signal: controller.signal } : params,
+    );
+    return Promise.race([request, timeout]).then(
+      (res) => boundBodyReads(res, timeout, clear),
+      (e) => {
+        clear();
+        return Promise.reject(e);
+      },
+    );
   }
 
   public dispatch(
@@ -41,8 +147,17 @@ export default class StatsigFetcher {
     retries: number = 0,
     backoff: number | RetryBackoffFunc = 1000,
     isRetrying = false,
+    requestOptions: RequestOptions = {},
   ): Promise<Response> {
-    return this.request('POST', url, body, retries, backoff, isRetrying);
+    return this.request(
+      'POST',
+      url,
+      body,
+      retries,
+      backoff,
+      isRetrying,
+      requestOptions,
+    );
   }
 
   public get(
@@ -50,10 +165,22 @@ export default class StatsigFetcher {
     retries: number = 0,
     backoff: number | RetryBackoffFunc = 1000,
     isRetrying = false,
+    requestOptions: RequestOptions = {},
   ): Promise<Response> {
-    return this.request('GET', url, undefined, retries, backoff, isRetrying);
+    return this.request(
+      'GET',
+      url,
+      undefined,
+      retries,
+      backoff,
+      isRetrying,
+      requestOptions,
+    );
   }
 
+  // The circuit breaker sees a request and its retries as one outcome, that of
+  // the last attempt, so retrying cannot open the circuit on its own. Retries
+  // pass the outcome of the request they belong to
   public request(
     method: 'GET' | 'POST',
     url: string,
@@ -61,10 +188,59 @@ export default class StatsigFetcher {
     retries: number = 0,
     backoff: number | RetryBackoffFunc = 1000,
     isRetrying = false,
+    requestOptions: RequestOptions = {},
+    retryOutcome: RequestOutcome | null = null,
   ): Promise<Response> {
     if (this.localMode) {
       return Promise.reject(new StatsigLocalModeNetworkError());
     }
+    const endpoint = getEndpoint(url);
+    if (retryOutcome == null && !this.circuitBreaker.canRequest(endpoint)) {
+      return Promise.reject(new StatsigCircuitOpenError(endpoint));
+    }
+
+    const outcome: RequestOutcome = retryOutcome ?? { healthy: null };
+    let attempt: Promise<Response>;
+    try {
+      attempt = this._attempt(
+        method,
+        url,
+        body,
+        retries,
+        backoff,
+        isRetrying,
+        requestOptions,
+        outcome,
+      );
+    } catch (e) {
+      attempt = Promise.reject(e);
+    }
+    if (retryOutcome != null) {
+      return attempt;
+    }
+    return attempt.finally(() => {
+      if (outcome.healthy === true) {
+        this.circuitBreaker.recordSuccess(endpoint);
+      } else if (outcome.healthy === false) {
+        this.circuitBreaker.recordFailure(endpoint);
+      } else {
+        // Nothing was sent, e.g. the request could not be built
+        this.circuitBreaker.release(endpoint);
+      }
+    });
+  }
+
+  private _attempt(
+    method: 'GET' | 'POST',
+    url: string,
+    body: Record<string, unknown> | undefined,
+    retries: number,
+    backoff: number | RetryBackoffFunc,
+    isRetrying: boolean,
+    requestOptions: RequestOptions,
+    outcome: RequestOutcome,
+  ): Promise<Response> {
+    const endpoint = getEndpoint(url);
     const counter = this.leakyBucket[url];
     if (counter != null && counter >= 1000) {
       return Promise.reject(
@@ -86,25 +262,56 @@ export default class StatsigFetcher {
         ? applyBackoffMultiplier(backoff)
         : backoff(retries);
 
-    const params: Record<string, unknown> = {
-      method,
-      headers: {
-        'Content-type': 'application/json; charset=UTF-8',
-        'STATSIG-API-KEY': this.sdkKey,
-        'STATSIG-CLIENT-TIME': Date.now(),
-        'STATSIG-SERVER-SESSION-ID': this.sessionID,
-        'STATSIG-SDK-TYPE': getSDKType(),
-        'STATSIG-SDK-VERSION': getSDKVersion(),
-      },
+    const headers: Record<string, unknown> = {
+      'Content-type': 'application/json; charset=UTF-8',
+      'STATSIG-API-KEY': this.sdkKey,
+      'STATSIG-CLIENT-TIME': Date.now(),
+      'STATSIG-SERVER-SESSION-ID': this.sessionID,
+      'STATSIG-SDK-TYPE': getSDKType(),
+      'STATSIG-SDK-VERSION': getSDKVersion(),
+      ...requestOptions.headers,
     };
+    const params: Record<string, unknown> = { method, headers };
     if (body != null) {
-      params['body'] = JSON.stringify(body);
+      const json = JSON.stringify(body);
+      if (requestOptions.compress) {
+        params['body'] = zlib.gzipSync(json);
+        headers['Content-Encoding'] = 'gzip';
+      } else {
+        params['body'] = json;
+      }
     }
-    return safeFetch(url, params)
+    return this.fetch(url, params, requestOptions.timeoutMs)
+      .then(
+        (res) => res,
+        (e) => {
+          outcome.healthy = false;
+          return Promise.reject(e);
+        },
+      )
       .then((res) => {
-        if ((!res.ok || retryStatusCodes.includes(res.status)) && retries > 0) {
-          return this._retry(method, url, body, retries - 1, backoffAdjusted);
-        } else if (!res.ok) {
+        const retryAfterMs = getRetryAfterMs(res);
+        if (retryAfterMs != null) {
+          this.circuitBreaker.blockUntil(endpoint, Date.now() + retryAfterMs);
+        }
+        outcome.healthy = !(
+          res.status === 429 || retryStatusCodes.includes(res.status)
+        );
+
+        // 304 answers a conditional request, there is nothing new to read
+        const ok = res.ok || res.status === 304;
+        if ((!ok || retryStatusCodes.includes(res.status)) && retries > 0) {
+          return this._retry(
+            method,
+            url,
+            body,
+            retries - 1,
+            backoffAdjusted,
+            requestOptions,
+            outcome,
+            retryAfterMs ?? 0,
+          );
+        } else if (!ok) {
           return Promise.reject(
             new Error(
               'Request to ' + url + ' failed with status ' + res.status,
@@ -115,7 +322,15 @@ export default class StatsigFetcher {
       })
       .catch((e) => {
         if (retries > 0) {
-          return this._retry(method, url, body, retries - 1, backoffAdjusted);
+          return this._retry(
+            method,
+            url,
+            body,
+            retries - 1,
+            backoffAdjusted,
+            requestOptions,
+            outcome,
+          );
         }
         return Promise.reject(e);
       })
@@ -135,6 +350,25 @@ export default class StatsigFetcher {
     if (this.dispatcher != null) {
       this.dispatcher.shutdown();
     }
+    this.agents?.destroy();
+  }
+
+  private _onCircuitStateChange(
+    endpoint: string,
+    state: CircuitState,
+    consecutiveFailures: number,
+  ): void {
+    this.diagnostics?.logMarker(
+      endpoint.endsWith('/log_event') ? 'event_logging' : 'config_sync',
+      {
+        key: 'circuit_breaker',
+        action: 'end',
+        step: null,
+        value: state,
+        timestamp: Date.now(),
+        metadata: { url: endpoint, consecutiveFailures },
+      },
+    );
   }
 
   private _retry(
@@ -143,16 +377,82 @@ export default class StatsigFetcher {
     body: Record<string, unknown> | undefined,
     retries: number,
     backoff: number,
+    requestOptions: RequestOptions,
+    outcome: RequestOutcome,
+    minDelayMs = 0,
   ): Promise<Response> {
+    // Equal jitter keeps retries from many servers from arriving in lockstep
+    const delay = Math.max(
+      backoff / 2 + (Math.random() * backoff) / 2,
+      minDelayMs,
+    );
     return new Promise((resolve, reject) => {
       this.pendingTimers.push(
         setTimeout(() => {
           this.leakyBucket[url] = Math.max(this.leakyBucket[url] - 1, 0);
-          this.request(method, url, body, retries, backoff, true)
+          this.request(
+            method,
+            url,
+            body,
+            retries,
+            backoff,
+            true,
+            requestOptions,
+            outcome,
+          )
             .then(resolve)
             .catch(reject);
-        }, backoff).unref(),
+        }, delay).unref(),
       );
     });
   }
 }
+
+// The sdk key is dropped from download_config_specs urls
+function getEndpoint(url: string): string {
+  return url.split('?')[0].replace(/\/[^/]*\.json$/, '');
+}
+
+const BODY_READS = ['text', 'json', 'arrayBuffer'] as const;
+
+// The headers arriving does not end the timeout, a body that stalls part way
+// would otherwise hold up the caller reading it
+function boundBodyReads(
+  res: Response,
+  timeout: Promise<never>,
+  onRead: () => void,
+): Response {
+  if (res == null) {
+    return res;
+  }
+  BODY_READS.forEach((method) => {
+    const read: (() => Promise<unknown>) | undefined = res[method];
+    if (typeof read !== 'function') {
+      return;
+    }
+    Object.defineProperty(res, method, {
+      configurable: true,
+      value: () => Promise.race([read.call(res), timeout]).finally(onRead),
+    });
+  });
+  return res;
+}
+
+function getRetryAfterMs(res: Response): number | null {
+  if (retryAfterStatusCodes.indexOf(res.status) === -1) {
+    return null;
+  }
+  const value = res.headers?.get('retry-after');
+  if (value == null || value === '') {
+    return null;
+  }
+  let delay = Number(value) * 1000;
+  if (isNaN(delay)) {
+    const date = Date.parse(value);
+    if (isNaN(date)) {
+      return null;
+    }
+    delay = date - Date.now();
+  }
+  return Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+}
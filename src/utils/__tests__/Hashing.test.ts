@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import { Base64 } from '../Base64';
+import { sha256Hash, sha256HashBase64 } from '../Hashing';
+import LRUCache from '../LRUCache';
+import { SHA256 } from '../Sha256';
+
+const INPUTS = [
+  '',
+  'a',
+  'salt.rule_id.user-123',
+  'x'.repeat(1000),
+  'ünïcødé',
+  '日本語のユーザー',
+  'emoji 🚀 pair',
+  'lone \uD83D surrogate',
+  'trailing \uDE00',
+];
+
+describe('Native sha256 hashing', () => {
+  it.each(INPUTS)('matches the JS implementation for %j', (input) => {
+    const expected = SHA256(input);
+    expect(sha256HashBase64(input)).toEqual(
+      Base64.encodeArrayBuffer(expected.arrayBuffer()),
+    );
+    expect(sha256Hash(input).getBigUint64(0, false)).toEqual(
+      SHA256(input).dataView().getBigUint64(0, false),
+    );
+  });
+
+  it.each([1, 55, 56, 63, 64, 65])(
+    'matches node crypto for %i ASCII bytes',
+    (length) => {
+      const input = 'a'.repeat(length);
+      const expected = createHash('sha256').update(input).digest();
+      expect(sha256HashBase64(input)).toEqual(expected.toString('base64'));
+      expect(sha256Hash(input).getBigUint64(0, false)).toEqual(
+        expected.readBigUInt64BE(0),
+      );
+    },
+  );
+
+  it('keeps the JS digest for the empty string', () => {
+    // Differs from standard SHA-256, see nativeSha256
+    expect(sha256HashBase64('')).toEqual(
+      '2laYvhe5tGliM1eZd5++yozl1JHA0mJDuv756hg3qdg=',
+    );
+    expect(sha256HashBase64('')).not.toEqual(
+      createHash('sha256').update('').digest('base64'),
+    );
+  });
+});
+
+describe('LRUCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    expect(cache.get('a')).toEqual(1);
+
+    cache.set('c', 3);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.get('a')).toEqual(1);
+    expect(cache.get('c')).toEqual(3);
+    expect(cache.size()).toEqual(2);
+  });
+
+  it('refreshes entries when they are overwritten', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+    expect(cache.get('a')).toEqual(10);
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('keeps falsy values', () => {
+    const cache = new LRUCache<string, bigint>(1);
+    cache.set('zero', BigInt(0));
+    expect(cache.get('zero')).toEqual(BigInt(0));
+  });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const DEBOUNCE_MS = 50;
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Calls onChange whenever the file at filePath is written, replaced or created.
+ * The parent directory is watched rather than the file itself, so editors and
+ * writers that swap in a new file with rename() keep triggering updates.
+ * Falls back to stat polling where fs.watch is unavailable.
+ * @returns a function that stops watching
+ */
+export function watchFile(filePath: string, onChange: () => void): () => void {
+  const directory = path.dirname(filePath);
+  const basename = path.basename(filePath);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = () => {
+    if (timer != null) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      onChange();
+    }, DEBOUNCE_MS);
+    timer.unref?.();
+  };
+
+  let stop: () => void;
+  try {
+    const watcher = fs.watch(directory, { persistent: false }, (_, name) => {
+      if (name == null || String(name) === basename) {
+        schedule();
+      }
+    });
+    watcher.on('error', () => {
+      // The directory went away; polling picks the file back up if it returns
+      watcher.close();
+      stop = pollFile(filePath, schedule);
+    });
+    stop = () => watcher.close();
+  } catch (e) {
+    stop = pollFile(filePath, schedule);
+  }
+
+  return () => {
+    if (timer != null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    stop();
+  };
+}
+
+function pollFile(filePath: string, onChange: () => void): () => void {
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (
+      current.mtimeMs !== previous.mtimeMs ||
+      current.size !== previous.size
+    ) {
+      onChange();
+    }
+  };
+  fs.watchFile(
+    filePath,
+    { persistent: false, interval: POLL_INTERVAL_MS },
+    listener,
+  );
+  return () => fs.unwatchFile(filePath, listener);
+}